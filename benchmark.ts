@@ -0,0 +1,109 @@
+/**
+ * Compares `LocalDate` against the js `Date`-backed implementation it
+ * replaced. Run with `npm run benchmark`.
+ */
+import { LocalDate } from "./index";
+
+/** The previous implementation, kept here as the baseline */
+class DateBackedLocalDate {
+    private readonly date: Date;
+
+    constructor(year: number, month: number, day: number) {
+        this.date = new Date(2000, 1, 1);
+        this.date.setFullYear(year, month - 1, day);
+    }
+
+    get year() {
+        return this.date.getFullYear();
+    }
+    get month() {
+        return this.date.getMonth() + 1;
+    }
+    get day() {
+        return this.date.getDate();
+    }
+
+    toString() {
+        return `${this.year}-${("" + this.month).padStart(2, "0")}-${(
+            "" + this.day
+        ).padStart(2, "0")}`;
+    }
+    range(to: DateBackedLocalDate) {
+        const greater = to.toString() > this.toString();
+        let current: DateBackedLocalDate = this;
+        const result: DateBackedLocalDate[] = [];
+        while (!current.equals(to)) {
+            result.push(current);
+            current = greater ? current.plusDays(1) : current.plusDays(-1);
+        }
+        result.push(to);
+        return result;
+    }
+    plusDays(days: number) {
+        return new DateBackedLocalDate(this.year, this.month, this.day + days);
+    }
+    equals(date: DateBackedLocalDate) {
+        return (
+            date.year === this.year &&
+            date.month === this.month &&
+            date.day === this.day
+        );
+    }
+    isBefore(date: DateBackedLocalDate) {
+        return this.toString() < date.toString();
+    }
+}
+
+/** What the benchmark needs from either implementation */
+interface BenchmarkedDate<D> {
+    range(to: D): D[];
+    isBefore(date: D): boolean;
+    equals(date: D): boolean;
+}
+
+const time = (name: string, run: () => void) => {
+    run(); // warm up
+    const start = process.hrtime.bigint();
+    run();
+    const ms = Number(process.hrtime.bigint() - start) / 1e6;
+    console.log(`  ${name.padEnd(12)} ${ms.toFixed(1).padStart(8)}ms`);
+};
+
+const benchmark = <D extends BenchmarkedDate<D>>(
+    name: string,
+    from: D,
+    to: D,
+    key: (date: D) => string | number
+) => {
+    console.log(name);
+    let dates: D[] = [];
+    time("iteration", () => {
+        dates = from.range(to);
+    });
+    time("comparison", () => {
+        let count = 0;
+        for (let i = 1; i < dates.length; i++) {
+            if (dates[i].isBefore(dates[i - 1])) count++;
+            if (dates[i].equals(dates[i - 1])) count++;
+        }
+        return count;
+    });
+    time("hashing", () => {
+        const keys = new Set<string | number>();
+        for (const date of dates) keys.add(key(date));
+    });
+};
+
+// about 50 years of days
+benchmark(
+    "LocalDate",
+    new LocalDate(1990, 1, 1),
+    new LocalDate(2040, 1, 1),
+    (date: LocalDate) => date.toEpochDay()
+);
+benchmark(
+    "Date-backed LocalDate",
+    new DateBackedLocalDate(1990, 1, 1),
+    new DateBackedLocalDate(2040, 1, 1),
+    (date: DateBackedLocalDate) => date.toString()
+);
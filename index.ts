@@ -34,18 +34,234 @@ function range(...args: [number] | [number, number]) {
     return result;
 }
 
+/** Details about where and why parsing failed, for {@link DateFormatError} */
+export interface DateFormatErrorDetails {
+    /** The index in the input where the problem starts */
+    position?: number;
+    /** The field that couldn't be read, like `"month"` or `"quarter"` */
+    field?: string;
+    reason?: string;
+}
+
 export class DateFormatError extends Error {
-    constructor(date: any) {
-        super(`Date is not in a valid format: ${date}`);
+    readonly input: string;
+    readonly position?: number;
+    readonly field?: string;
+
+    constructor(date: any, details: DateFormatErrorDetails = {}) {
+        const { position, field, reason } = details;
+        super(
+            `Date is not in a valid format: ${date}` +
+                (reason ? ` (${reason})` : "")
+        );
+        this.input = `${date}`;
+        this.position = position;
+        this.field = field;
+    }
+}
+
+export class DateOverflowError extends Error {
+    constructor(year: number, month: number, day: number) {
+        super(
+            `Day ${day} does not exist in ${year}-${formatToTwoDigits(month)}`
+        );
+    }
+}
+
+export class InvalidRangeError extends Error {
+    constructor(start: LocalDate, end: LocalDate) {
+        super(`Range ends before it starts: ${start}--${end}`);
     }
 }
 
+/**
+ * What to do when month arithmetic lands on a day the target month doesn't
+ * have, like adding one month to January 31st:
+ *
+ * - `"clamp"` uses the last day of the month instead (February 28th or 29th)
+ * - `"rollover"` carries the extra days into the next month (March 2nd or 3rd)
+ * - `"throw"` throws a {@link DateOverflowError}
+ */
+export type Overflow = "clamp" | "rollover" | "throw";
+
+/** An amount of calendar time, as accepted by {@link LocalDate.plus}. */
+export interface LocalDateDuration {
+    years?: number;
+    months?: number;
+    weeks?: number;
+    days?: number;
+}
+
 /** A range of calendary days, without any knowledge of time of day or timezones.*/
 export interface LocalDatePeriod {
     start: LocalDate;
     end: LocalDate;
 }
 
+/**
+ * The exact instants a period covers in some timezone, including `start`
+ * and excluding `end`, ready for a `start <= t AND t < end` query.
+ */
+export interface InstantInterval {
+    start: Date;
+    end: Date;
+}
+
+/**
+ * Which ends of the range count for {@link Comparable.isBetween}. Both ends
+ * are included by default.
+ */
+export type Inclusivity = "both" | "start" | "end" | "neither";
+
+/** How to step from one period to another, for methods like `LocalDate.iterate` */
+export interface StepOptions {
+    /** The number of periods per step, a whole number of at least 1 */
+    step?: number;
+    /**
+     * Which way to step. When the target is the other way, nothing is
+     * produced rather than stepping backward.
+     */
+    direction?: "forward" | "backward";
+    /** Which of the two ends to produce if they're reached */
+    inclusivity?: Inclusivity;
+}
+
+/**
+ * The ordering shared by `LocalDate`, `LocalWeek`, `LocalMonth`, `Quarter`
+ * and `LocalYear`. Each one only needs to provide `valueOf`; everything else
+ * is built on it.
+ */
+export abstract class Comparable<T extends Comparable<T>> {
+    /**
+     * A whole number that increases by one with each period, like the
+     * number of days since 1970-01-01 for a `LocalDate`. Two periods of the
+     * same class are equal exactly when their values are, so this is a
+     * stable key for a `Map` or `Set`, and it lets `<` and `>` compare
+     * periods directly.
+     */
+    abstract valueOf(): number;
+
+    /**
+     * Only convert to the number when one is asked for, like with `<` and
+     * `>`, so that `"due " + date` still gives the text of the period.
+     */
+    [Symbol.toPrimitive](hint: string) {
+        return hint === "number" ? this.valueOf() : this.toString();
+    }
+
+    /**
+     * Negative if this is before the other period, positive if it's after
+     * and zero if they're equal, as `Array.prototype.sort` expects.
+     */
+    compare(other: T) {
+        return this.valueOf() - other.valueOf();
+    }
+
+    equals(other: T) {
+        return this.compare(other) === 0;
+    }
+    isBefore(other: T) {
+        return this.compare(other) < 0;
+    }
+    isAfter(other: T) {
+        return this.compare(other) > 0;
+    }
+    isSameOrBefore(other: T) {
+        return this.compare(other) <= 0;
+    }
+    isSameOrAfter(other: T) {
+        return this.compare(other) >= 0;
+    }
+
+    isBetween(start: T, end: T, inclusive: Inclusivity = "both") {
+        const includeStart = inclusive === "both" || inclusive === "start";
+        const includeEnd = inclusive === "both" || inclusive === "end";
+        return (
+            (includeStart ? this.isSameOrAfter(start) : this.isAfter(start)) &&
+            (includeEnd ? this.isSameOrBefore(end) : this.isBefore(end))
+        );
+    }
+
+    /** Get the closest period to this one from `min` to `max`, inclusive */
+    clamp(min: T, max: T): T {
+        if (this.isBefore(min)) return min;
+        if (this.isAfter(max)) return max;
+        return this as unknown as T;
+    }
+
+    /** Compare two periods, for passing straight to `Array.prototype.sort` */
+    static compare<T extends Comparable<T>>(a: T, b: T) {
+        return a.compare(b);
+    }
+
+    static min<T extends Comparable<T>>(
+        this: { prototype: T },
+        first: T,
+        ...rest: T[]
+    ) {
+        return rest.reduce(
+            (min, value) => (value.isBefore(min) ? value : min),
+            first
+        );
+    }
+
+    static max<T extends Comparable<T>>(
+        this: { prototype: T },
+        first: T,
+        ...rest: T[]
+    ) {
+        return rest.reduce(
+            (max, value) => (value.isAfter(max) ? value : max),
+            first
+        );
+    }
+
+    /** Get a sorted copy of the periods, earliest first */
+    static sort<T extends Comparable<T>>(this: { prototype: T }, values: T[]) {
+        return [...values].sort(Comparable.compare);
+    }
+}
+
+/**
+ * Lazily step from one period to another. Every period is computed from the
+ * first one, so stepping by months never drifts from clamped days. The
+ * options are checked up front, not when the first period is pulled.
+ */
+function stepBetween<T extends Comparable<T>>(
+    from: T,
+    to: T,
+    plus: (from: T, periods: number) => T,
+    options: StepOptions
+) {
+    const { step = 1, direction = "forward", inclusivity = "both" } = options;
+    if (!isWholeNumberInRange(step, 1, Infinity)) {
+        throw new RangeError(`Can't step by ${step}`);
+    }
+    const sign = direction === "forward" ? 1 : -1;
+    return (function* () {
+        for (let periods = 0; ; periods += step) {
+            const current = plus(from, sign * periods);
+            const comparison = sign * current.compare(to);
+            if (comparison > 0) {
+                return;
+            }
+            if (comparison === 0) {
+                if (inclusivity === "both" || inclusivity === "end") {
+                    yield current;
+                }
+                return;
+            }
+            if (
+                periods > 0 ||
+                inclusivity === "both" ||
+                inclusivity === "start"
+            ) {
+                yield current;
+            }
+        }
+    })();
+}
+
 /**
  * Represents a day in time, without any knowledge of attached timezones. Allows us
  * to safely manipulate the idea of a "report date" without worrying about confusing
@@ -53,45 +269,146 @@ export interface LocalDatePeriod {
  *
  * A lot of this involves taking advantage of the `toLocaleDateString` function,
  * which is the only browser built-in that understands timezones.
+ *
+ * Internally a date is a count of days since 1970-01-01 on the proleptic
+ * Gregorian calendar, the same calendar js dates use, so comparing and
+ * stepping through dates is plain integer math that can't be affected by the
+ * host's timezone.
  */
-export class LocalDate implements LocalDatePeriod {
-    private readonly date: Date;
+export class LocalDate
+    extends Comparable<LocalDate>
+    implements LocalDatePeriod
+{
+    readonly year: number;
+    /**
+     * The month, 1-indexed so 1 is January
+     */
+    readonly month: number;
+    readonly day: number;
+    private readonly epochDay: number;
 
+    /**
+     * Like js dates, this rolls over out-of-range months and days, so the
+     * 35th of January is the 4th of February and month 0 is the December of
+     * the previous year.
+     */
     constructor(year: number, month: number, day: number) {
-        this.date = new Date(2000, 1, 1);
-        this.date.setFullYear(year, month - 1, day);
+        super();
+        const monthIndex = Math.trunc(month) - 1;
+        const firstOfMonth = daysFromCivil(
+            Math.trunc(year) + Math.floor(monthIndex / 12),
+            positiveModulo(monthIndex, 12) + 1,
+            1
+        );
+        this.epochDay = firstOfMonth + Math.trunc(day) - 1;
+        [this.year, this.month, this.day] = civilFromDays(this.epochDay);
     }
 
-    get year() {
-        return this.date.getFullYear();
+    /**
+     * Get the day of the week. 0-indexed so 0 is Monday
+     */
+    get weekday() {
+        // 1970-01-01 was a thursday
+        return positiveModulo(this.epochDay + 3, 7);
     }
     /**
-     * Gets the month, 1-indexed so 1 is January
+     * Get the day of the year. 1-indexed so 1 is January 1st
      */
-    get month() {
-        return this.date.getMonth() + 1;
+    get dayOfYear() {
+        return new LocalDate(this.year, 1, 1).daysUntil(this) + 1;
     }
-    get day() {
-        return this.date.getDate();
+    /**
+     * Get the ISO 8601 week-numbering year. This differs from `year` for days
+     * near January 1st, so December 31st 2024 is in week 1 of 2025.
+     */
+    get isoWeekYear() {
+        return this.isoThursday().year;
     }
     /**
-     * Get the day of the week. 0-indexed so 0 is Monday
+     * Get the ISO 8601 week number, from 1 to 53. Week 1 is the week holding
+     * the first thursday of the year.
      */
-    get weekday() {
-        return (this.date.getDay() + 6) % 7;
+    get isoWeek() {
+        return Math.trunc((this.isoThursday().dayOfYear - 1) / 7) + 1;
+    }
+
+    /** The thursday of this date's week, which decides its ISO week-year */
+    private isoThursday() {
+        return this.plusDays(3 - this.weekday);
     }
 
     toString() {
-        return `${this.year}-${formatToTwoDigits(
+        return `${formatIsoYear(this.year)}-${formatToTwoDigits(
             this.month
         )}-${formatToTwoDigits(this.day)}`;
     }
+    /** Serialize as {@link LocalDate.toString}, like `2024-01-31` */
+    toJSON() {
+        return this.toString();
+    }
+    /**
+     * Format with a pattern, like `format("EEE, MMM d yyyy")` for
+     * "Mon, Jan 1 2024". The tokens are:
+     *
+     * - `y` the year, and `yy` its last two digits; `yyyy` pads to 4
+     * - `M` the month, `MM` padded, `MMM` its short name and `MMMM` its full name
+     * - `d` the day of the month, `dd` padded
+     * - `D` the day of the year, `DDD` padded
+     * - `E`, `EE` or `EEE` the short weekday name, and `EEEE` the full name
+     * - `Q` the quarter
+     * - `I` the ISO week, `II` padded, and `RRRR` the ISO week-year
+     * - `i` the ISO weekday, 1 for Monday to 7 for Sunday
+     *
+     * Text inside single quotes is left alone, so `'Q'Q yyyy` is "Q1 2024",
+     * and two single quotes make a literal one. Names come from `Intl` in
+     * the given locale, English by default.
+     */
+    format(pattern: string, locale: string | string[] = "en") {
+        return formatPattern(this, pattern, locale);
+    }
+    /**
+     * Format with `Intl.DateTimeFormat`, like `Date.toLocaleDateString`. The
+     * date is always formatted in UTC, so it can't shift by a day in the
+     * host's timezone.
+     */
+    toLocaleString(
+        locale?: string | string[],
+        options: Intl.DateTimeFormatOptions = {}
+    ) {
+        return formatLocale(this, locale, options);
+    }
+    /** Get the number of days since 1970-01-01 */
+    toEpochDay() {
+        return this.epochDay;
+    }
+    /** The number of days since 1970-01-01. See {@link Comparable.valueOf}. */
+    valueOf() {
+        return this.epochDay;
+    }
+    /** Get a js date at midnight at the start of this day, in local time */
     toDate() {
-        // copy it so the LocalDate internals can't be changed
-        return new Date(this.date);
+        const date = new Date(2000, 1, 1);
+        date.setFullYear(this.year, this.month - 1, this.day);
+        return date;
     }
-    toLocalWeek() {
-        return new LocalWeek(this);
+    /**
+     * Get the first instant of this day in a timezone. When a DST change
+     * skips over midnight, the day starts at the change instead, and when
+     * midnight happens twice this is the first of them.
+     */
+    startOfDayInTz(timeZone: string) {
+        return new Date(startOfDayInstant(this.epochDay, timeZone));
+    }
+    /**
+     * Get the instant the next day starts in a timezone, which is the
+     * exclusive end of this one. A day that a timezone skips entirely ends
+     * as soon as it starts.
+     */
+    endOfDayInTz(timeZone: string) {
+        return new Date(startOfDayInstant(this.epochDay + 1, timeZone));
+    }
+    toLocalWeek(weekStart: Weekday = 0) {
+        return new LocalWeek(this, weekStart);
     }
     toLocalMonth() {
         return new LocalMonth(this.year, this.month);
@@ -102,44 +419,155 @@ export class LocalDate implements LocalDatePeriod {
             (Math.trunc((this.month - 1) / 3) + 1) as QuarterNumber
         );
     }
+    toLocalYear() {
+        return new LocalYear(this.year);
+    }
     /** Get an array of dates from this date to the target, inclusive */
     range(to: LocalDate) {
-        const greater = to.toString() > this.toString();
-        let current: LocalDate = this;
+        const step = to.epochDay > this.epochDay ? 1 : -1;
         const result: LocalDate[] = [];
-        while (!current.equals(to)) {
-            result.push(current);
-            current = greater ? current.plusDays(1) : current.minusDays(1);
+        for (let day = this.epochDay; day !== to.epochDay; day += step) {
+            result.push(LocalDate.fromEpochDay(day));
         }
         result.push(to);
         return result;
     }
+    /**
+     * Lazily step through the dates from this one to the target, inclusive
+     * by default. Unlike {@link LocalDate.range}, this only goes backward
+     * when asked to.
+     */
+    iterate(to: LocalDate, options: StepOptions = {}) {
+        return stepBetween(
+            this,
+            to,
+            (date, days) => date.plusDays(days),
+            options
+        );
+    }
 
     plusDays(days: number) {
-        // js dates roll the days over, so the 35th of January is converted
-        // to the 4th of February
-        return new LocalDate(this.year, this.month, this.day + days);
+        return LocalDate.fromEpochDay(this.epochDay + days);
     }
     minusDays(days: number) {
         return this.plusDays(-days);
     }
 
-    equals(date: LocalDate) {
-        return (
-            date.year === this.year &&
-            date.month === this.month &&
-            date.day === this.day
+    plusWeeks(weeks: number) {
+        return this.plusDays(7 * weeks);
+    }
+    minusWeeks(weeks: number) {
+        return this.plusWeeks(-weeks);
+    }
+
+    /**
+     * Add calendar months, keeping the day of the month. If the target month
+     * is too short for this day, `overflow` decides what happens; by default
+     * January 31st plus one month is the last day of February.
+     */
+    plusMonths(months: number, overflow: Overflow = "clamp") {
+        const month = new LocalMonth(this.year, this.month + months);
+        if (this.day <= month.numberOfDays()) {
+            return new LocalDate(month.year, month.month, this.day);
+        }
+        switch (overflow) {
+            case "clamp":
+                return month.last;
+            case "rollover":
+                return new LocalDate(month.year, month.month, this.day);
+            case "throw":
+                throw new DateOverflowError(month.year, month.month, this.day);
+        }
+    }
+    minusMonths(months: number, overflow: Overflow = "clamp") {
+        return this.plusMonths(-months, overflow);
+    }
+
+    plusQuarters(quarters: number, overflow: Overflow = "clamp") {
+        return this.plusMonths(3 * quarters, overflow);
+    }
+    minusQuarters(quarters: number, overflow: Overflow = "clamp") {
+        return this.plusQuarters(-quarters, overflow);
+    }
+
+    plusYears(years: number, overflow: Overflow = "clamp") {
+        return this.plusMonths(12 * years, overflow);
+    }
+    minusYears(years: number, overflow: Overflow = "clamp") {
+        return this.plusYears(-years, overflow);
+    }
+
+    /**
+     * Add a mix of calendar units. Years and months are added together
+     * first, following `overflow`, and then weeks and days are added to the
+     * result, so January 31st plus one month and one day is March 1st.
+     */
+    plus(duration: LocalDateDuration, overflow: Overflow = "clamp") {
+        const { years = 0, months = 0, weeks = 0, days = 0 } = duration;
+        return this.plusMonths(12 * years + months, overflow).plusDays(
+            7 * weeks + days
+        );
+    }
+    minus(duration: LocalDateDuration, overflow: Overflow = "clamp") {
+        const { years = 0, months = 0, weeks = 0, days = 0 } = duration;
+        return this.plus(
+            { years: -years, months: -months, weeks: -weeks, days: -days },
+            overflow
         );
     }
 
-    isBefore(date: LocalDate) {
-        return this.toString() < date.toString();
+    /**
+     * Count the days from this date to the target, which is negative if the
+     * target is earlier. Computed on the UTC calendar, so it is exact across
+     * DST changes in the host's timezone.
+     */
+    daysUntil(date: LocalDate) {
+        return date.epochDay - this.epochDay;
+    }
+    /** Count the whole weeks from this date to the target, truncated */
+    weeksUntil(date: LocalDate) {
+        // truncating gives -0 for less than a week back
+        return Math.trunc(this.daysUntil(date) / 7) || 0;
+    }
+    /**
+     * Count the whole calendar months from this date to the target,
+     * truncated. A month is complete once the target reaches the same day of
+     * the month, so January 31st to February 29th is still 0 months.
+     */
+    monthsUntil(date: LocalDate) {
+        const months = (date.year - this.year) * 12 + (date.month - this.month);
+        if (months > 0 && date.day < this.day) return months - 1;
+        if (months < 0 && date.day > this.day) return months + 1;
+        return months;
+    }
+    /** Count the whole calendar years from this date to the target, truncated */
+    yearsUntil(date: LocalDate) {
+        return Math.trunc(this.monthsUntil(date) / 12) || 0;
+    }
+    /**
+     * Break the time from this date to the target into years, months and
+     * days. All three share a sign, and adding the result back with
+     * {@link LocalDate.plus} gives the target again.
+     */
+    until(date: LocalDate) {
+        const totalMonths = this.monthsUntil(date);
+        return {
+            years: Math.trunc(totalMonths / 12) || 0,
+            months: totalMonths % 12 || 0,
+            days: this.plusMonths(totalMonths).daysUntil(date),
+        };
     }
 
-    isAfter(date: LocalDate) {
-        return this.toString() > date.toString();
+    /** Format as an ISO 8601 week date, like `2024-W05-3` */
+    toIsoWeekString() {
+        return `${this.toLocalWeek().toIsoString()}-${this.weekday + 1}`;
     }
 
+    /**
+     * Parse an ISO date leniently, rolling over out-of-range days like the
+     * constructor does, so `2024-02-31` is March 2nd. Use
+     * {@link LocalDate.parse} to reject dates like that instead.
+     */
     static fromDateString(date: string) {
         const parts = date.split("-");
         if (parts.length !== 3) throw new DateFormatError(date);
@@ -149,6 +577,38 @@ export class LocalDate implements LocalDatePeriod {
         }
         return new LocalDate(year, month, day);
     }
+    /**
+     * Parse a date strictly, throwing a {@link DateFormatError} that says
+     * which field failed and where if anything is out of place or out of
+     * range. Without a pattern, this reads ISO 8601 calendar dates: the
+     * extended form (`2024-01-31`), the basic form (`20240131`) and
+     * expanded years with a sign (`+12024-01-31` or `-0044-03-15`).
+     *
+     * A pattern is made of `yyyy` (a 4-digit year), `y` (any year), `MM`
+     * and `dd` (2-digit months and days) and `M` and `d` (1 or 2 digits),
+     * like `dd/MM/yyyy` or `yyyyMMdd`. Anything else must match exactly, and
+     * letters must be quoted, like `yyyy'T'MMdd`.
+     */
+    static parse(input: string, pattern?: string) {
+        const parts = pattern
+            ? compileParsePattern(pattern)
+            : /^[+-]?\d+-/.test(input)
+              ? ISO_EXTENDED_PARTS
+              : ISO_BASIC_PARTS;
+        return parseWithPattern(input, parts);
+    }
+    /** Parse an ISO 8601 week date, like `2024-W05-3` */
+    static fromIsoWeekString(date: string) {
+        const match = /^(\d{4})-W(\d{2})-([1-7])$/.exec(date);
+        if (!match) throw new DateFormatError(date);
+        const [, year, week, weekday] = match.map((n) => parseInt(n, 10));
+        const monday = LocalWeek.fromIsoWeek(year, week).first;
+        return monday.plusDays(weekday - 1);
+    }
+    /** Get the date a number of days after 1970-01-01 */
+    static fromEpochDay(epochDay: number) {
+        return new LocalDate(1970, 1, 1 + epochDay);
+    }
     static fromDateInTz(date: Date, timeZone: string) {
         // yes, this is a weird hack
         // it works tho and is actually how most libraries that don't involve
@@ -167,8 +627,9 @@ export class LocalDate implements LocalDatePeriod {
         );
         return new LocalDate(year, month, day);
     }
-    static todayInTz(timeZone: string) {
-        return LocalDate.fromDateInTz(new Date(), timeZone);
+    /** Pass a {@link Clock} to control what "today" is, like in tests */
+    static todayInTz(timeZone: string, clock: Clock = systemClock) {
+        return LocalDate.fromDateInTz(clock.now(), timeZone);
     }
     static fromDate(date: Date) {
         return new LocalDate(
@@ -192,48 +653,444 @@ export class LocalDate implements LocalDatePeriod {
     }
 }
 
+const positiveModulo = (number: number, divisor: number) => {
+    return ((number % divisor) + divisor) % divisor;
+};
+
+/*
+ * Conversions between calendar dates and days since 1970-01-01. These count
+ * in 400-year eras starting in March, so the leap day is always the last day
+ * of the year. See http://howardhinnant.github.io/date_algorithms.html
+ */
+const DAYS_PER_ERA = 146097;
+const DAYS_FROM_ERA_START_TO_EPOCH = 719468;
+
+/** Count the days since 1970-01-01. `month` must be between 1 and 12. */
+const daysFromCivil = (year: number, month: number, day: number) => {
+    const marchYear = month <= 2 ? year - 1 : year;
+    const era = Math.floor(marchYear / 400);
+    const yearOfEra = marchYear - era * 400;
+    const marchMonth = month > 2 ? month - 3 : month + 9;
+    const dayOfYear = Math.floor((153 * marchMonth + 2) / 5) + day - 1;
+    const dayOfEra =
+        yearOfEra * 365 +
+        Math.floor(yearOfEra / 4) -
+        Math.floor(yearOfEra / 100) +
+        dayOfYear;
+    return era * DAYS_PER_ERA + dayOfEra - DAYS_FROM_ERA_START_TO_EPOCH;
+};
+
+/** Get the year, month and day a number of days after 1970-01-01 */
+const civilFromDays = (epochDay: number): [number, number, number] => {
+    const days = epochDay + DAYS_FROM_ERA_START_TO_EPOCH;
+    const era = Math.floor(days / DAYS_PER_ERA);
+    const dayOfEra = days - era * DAYS_PER_ERA;
+    const yearOfEra = Math.floor(
+        (dayOfEra -
+            Math.floor(dayOfEra / 1460) +
+            Math.floor(dayOfEra / 36524) -
+            Math.floor(dayOfEra / 146096)) /
+            365
+    );
+    const dayOfYear =
+        dayOfEra -
+        (365 * yearOfEra +
+            Math.floor(yearOfEra / 4) -
+            Math.floor(yearOfEra / 100));
+    const marchMonth = Math.floor((5 * dayOfYear + 2) / 153);
+    const day = dayOfYear - Math.floor((153 * marchMonth + 2) / 5) + 1;
+    const month = marchMonth < 10 ? marchMonth + 3 : marchMonth - 9;
+    const year = yearOfEra + era * 400 + (month <= 2 ? 1 : 0);
+    return [year, month, day];
+};
+
 const formatToTwoDigits = (number: number) => {
     return ("" + number).padStart(2, "0");
 };
 
+/**
+ * Format a year as ISO 8601 does: at least 4 digits, with a sign outside
+ * 0000–9999, like `0987`, `-0044` or `+12024`
+ */
+const formatIsoYear = (year: number) => {
+    const digits = ("" + Math.abs(year)).padStart(4, "0");
+    return year < 0 ? `-${digits}` : year > 9999 ? `+${digits}` : digits;
+};
+
+const DAY_RANGE_OPTIONS: Intl.DateTimeFormatOptions = {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+};
+
+/** Get a js date at midnight UTC at the start of the day */
+const toUtcDate = (date: LocalDate) => {
+    return new Date(date.toEpochDay() * 24 * 60 * 60 * 1000);
+};
+
+const formatLocale = (
+    date: LocalDate,
+    locale: string | string[] | undefined,
+    options: Intl.DateTimeFormatOptions
+) => {
+    const format = new Intl.DateTimeFormat(locale, {
+        ...options,
+        timeZone: "UTC",
+    });
+    return format.format(toUtcDate(date));
+};
+
+const formatLocaleRange = (
+    start: LocalDate,
+    end: LocalDate,
+    locale: string | string[] | undefined,
+    options: Intl.DateTimeFormatOptions
+) => {
+    const format = new Intl.DateTimeFormat(locale, {
+        ...options,
+        timeZone: "UTC",
+    }) as Intl.DateTimeFormat & {
+        // not in the typescript libs this targets
+        formatRange?: (start: Date, end: Date) => string;
+    };
+    if (!format.formatRange) {
+        const first = format.format(toUtcDate(start));
+        const last = format.format(toUtcDate(end));
+        return first === last ? first : `${first} – ${last}`;
+    }
+    return format.formatRange(toUtcDate(start), toUtcDate(end));
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const TZ_FORMATS = new Map<string, Intl.DateTimeFormat>();
+
+/** Get the wall clock time at an instant in a timezone, as if it were UTC */
+const wallTimeInTz = (instant: number, timeZone: string) => {
+    let format = TZ_FORMATS.get(timeZone);
+    if (!format) {
+        format = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hour12: false,
+            year: "numeric",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+            second: "numeric",
+        });
+        TZ_FORMATS.set(timeZone, format);
+    }
+    const fields: { [type: string]: number } = {};
+    for (const { type, value } of format.formatToParts(new Date(instant))) {
+        fields[type] = parseInt(value, 10);
+    }
+    const seconds =
+        // some engines count midnight as hour 24 without hourCycle
+        (fields.hour % 24) * 3600 + fields.minute * 60 + fields.second;
+    return (
+        daysFromCivil(fields.year, fields.month, fields.day) * MS_PER_DAY +
+        seconds * 1000 +
+        positiveModulo(instant, 1000)
+    );
+};
+
+const offsetInTz = (instant: number, timeZone: string) =>
+    wallTimeInTz(instant, timeZone) - instant;
+
+/**
+ * Find the first instant of a day in a timezone. This assumes the offset
+ * changes at most once in the day around midnight, which holds for every
+ * zone in the tz database.
+ */
+const startOfDayInstant = (epochDay: number, timeZone: string) => {
+    const midnight = epochDay * MS_PER_DAY;
+    const offsetBefore = offsetInTz(midnight - MS_PER_DAY, timeZone);
+    const offsetAfter = offsetInTz(midnight + MS_PER_DAY, timeZone);
+    // in an overlap both are midnight, and the earlier one starts the day
+    const candidates = [midnight - offsetBefore, midnight - offsetAfter]
+        .filter((instant) => wallTimeInTz(instant, timeZone) === midnight)
+        .sort((a, b) => a - b);
+    if (candidates.length) {
+        return candidates[0];
+    }
+    // midnight was skipped, so search the gap for the change, which always
+    // falls on a whole second
+    let before = Math.min(midnight - offsetBefore, midnight - offsetAfter);
+    let after = Math.max(midnight - offsetBefore, midnight - offsetAfter);
+    while (after - before > 1000) {
+        const middle = before + Math.floor((after - before) / 2000) * 1000;
+        if (wallTimeInTz(middle, timeZone) < midnight) {
+            before = middle;
+        } else {
+            after = middle;
+        }
+    }
+    return after;
+};
+
+/** Get the instants from the start of a period to the end of its last day */
+const instantsInTz = (
+    period: LocalDatePeriod,
+    timeZone: string
+): InstantInterval => ({
+    start: period.start.startOfDayInTz(timeZone),
+    end: period.end.endOfDayInTz(timeZone),
+});
+
+const FORMAT_TOKENS = /'((?:[^']|'')*)'|y+|M+|d+|D+|E+|Q+|I+|R+|i+/g;
+
+/**
+ * Format a day with a pattern. The ISO week tokens are read from `isoDate`,
+ * so a week can take them from its monday while the rest come from its
+ * first day.
+ */
+const formatPattern = (
+    date: LocalDate,
+    pattern: string,
+    locale: string | string[],
+    isoDate = date
+) => {
+    const pad = (number: number, length: number) =>
+        ("" + number).padStart(length, "0");
+    const name = (options: Intl.DateTimeFormatOptions) =>
+        formatLocale(date, locale, options);
+    return pattern.replace(FORMAT_TOKENS, (token, quoted?: string) => {
+        if (quoted === "") return "'";
+        if (quoted !== undefined) return quoted.replace(/''/g, "'");
+        const length = token.length;
+        switch (token[0]) {
+            case "y":
+                return length === 2
+                    ? pad(positiveModulo(date.year, 100), 2)
+                    : pad(date.year, length);
+            case "M":
+                if (length === 3) return name({ month: "short" });
+                if (length >= 4) return name({ month: "long" });
+                return pad(date.month, length);
+            case "d":
+                return pad(date.day, length);
+            case "D":
+                return pad(date.dayOfYear, length);
+            case "E":
+                return name({ weekday: length >= 4 ? "long" : "short" });
+            case "Q":
+                return pad(date.toQuarter().quarter, length);
+            case "I":
+                return pad(isoDate.isoWeek, length);
+            case "R":
+                return pad(isoDate.isoWeekYear, length);
+            default:
+                return pad(isoDate.weekday + 1, length);
+        }
+    });
+};
+
+/**
+ * A day of the week, 0-indexed so 0 is Monday and 6 is Sunday. This matches
+ * {@link LocalDate.weekday}.
+ */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
 /**
  * Represents a week without a timezone attached.
+ *
+ * Weeks start on Monday unless another `weekStart` is given, so a US-style
+ * week is `new LocalWeek(date, 6)`. Weeks are ordered by their first day,
+ * which means weeks with different start days can still be compared: a week
+ * starting on Sunday the 7th is before the week starting on Monday the 8th.
  */
-export class LocalWeek implements LocalDatePeriod {
-    readonly monday: LocalDate;
+export class LocalWeek
+    extends Comparable<LocalWeek>
+    implements LocalDatePeriod
+{
+    readonly first: LocalDate;
+    readonly weekStart: Weekday;
 
     /**
      * There's no standard representation of a week, so we accept any day
      * from that week as a valid reference to it
      */
-    constructor(date: LocalDate) {
-        this.monday = date.plusDays(-date.weekday);
+    constructor(date: LocalDate, weekStart: Weekday = 0) {
+        super();
+        this.weekStart = weekStart;
+        this.first = date.minusDays((date.weekday - weekStart + 7) % 7);
+    }
+
+    get last() {
+        return this.first.plusDays(6);
+    }
+
+    /** The monday of this week, wherever it falls within the week. */
+    get monday() {
+        return this.first.plusDays((7 - this.weekStart) % 7);
     }
 
+    /** The sunday of this week, wherever it falls within the week. */
     get sunday() {
-        return this.monday.plusDays(6);
+        return this.first.plusDays(6 - this.weekStart);
+    }
+
+    /**
+     * The number of days from 1970-01-01 to the first day of the week. See
+     * {@link Comparable.valueOf}.
+     */
+    valueOf() {
+        return this.first.valueOf();
     }
 
     plusWeeks(weeks: number) {
-        return new LocalWeek(this.monday.plusDays(7 * weeks));
+        return new LocalWeek(this.first.plusDays(7 * weeks), this.weekStart);
     }
     minusWeeks(weeks: number) {
         return this.plusWeeks(-weeks);
     }
+    /** Lazily step through the weeks from this one to the target */
+    iterate(to: LocalWeek, options: StepOptions = {}) {
+        return stepBetween(
+            this,
+            to,
+            (week, weeks) => week.plusWeeks(weeks),
+            options
+        );
+    }
 
-    isBefore(date: LocalWeek) {
-        return this.monday.isBefore(date.monday);
+    /**
+     * The ISO 8601 week-numbering year of this week's monday. See
+     * {@link LocalDate.isoWeekYear}.
+     */
+    get isoWeekYear() {
+        return this.monday.isoWeekYear;
     }
 
-    isAfter(date: LocalWeek) {
-        return this.monday.isAfter(date.monday);
+    /**
+     * The ISO 8601 week number of this week's monday. See
+     * {@link LocalDate.isoWeek}.
+     */
+    get isoWeek() {
+        return this.monday.isoWeek;
     }
 
     toDays() {
-        return range(7).map((i) => this.monday.plusDays(i));
+        return range(7).map((i) => this.first.plusDays(i));
+    }
+    /** Get the exact instants this week covers in a timezone */
+    toInstantsInTz(timeZone: string) {
+        return instantsInTz(this, timeZone);
+    }
+    /** Get the one or two months that the days of this week fall in */
+    toLocalMonths() {
+        return periodsCovering(this, "month");
     }
     toString() {
-        return `${this.monday.toString()}--${this.sunday.toString()}`;
+        return `${this.first.toString()}--${this.last.toString()}`;
+    }
+    /** Serialize as {@link LocalWeek.toString}, which keeps the week start */
+    toJSON() {
+        return this.toString();
+    }
+    /**
+     * Format the first day of the week with a pattern. See
+     * {@link LocalDate.format}. The ISO tokens `I`, `R` and `i` describe the
+     * week's monday instead, so they match {@link LocalWeek.isoWeek}.
+     */
+    format(pattern: string, locale: string | string[] = "en") {
+        return formatPattern(this.first, pattern, locale, this.monday);
+    }
+    /** Format the week as a range of days, like "Jan 1 – 7, 2024" */
+    toLocaleString(
+        locale?: string | string[],
+        options: Intl.DateTimeFormatOptions = DAY_RANGE_OPTIONS
+    ) {
+        return this.formatRange(locale, options);
+    }
+    /** See {@link LocalDateRange.formatRange} */
+    formatRange(
+        locale?: string | string[],
+        options: Intl.DateTimeFormatOptions = DAY_RANGE_OPTIONS
+    ) {
+        return formatLocaleRange(this.first, this.last, locale, options);
+    }
+    /** Format as an ISO 8601 week, like `2024-W05` */
+    toIsoString() {
+        return `${this.isoWeekYear}-W${formatToTwoDigits(this.isoWeek)}`;
+    }
+
+    /**
+     * Get the Monday-start week with the given ISO 8601 week number. Throws
+     * a {@link DateFormatError} if the year doesn't have that many weeks.
+     */
+    static fromIsoWeek(year: number, week: number) {
+        if (week < 1 || week > new LocalYear(year).numberOfIsoWeeks()) {
+            throw new DateFormatError(`${year}-W${formatToTwoDigits(week)}`);
+        }
+        // week 1 is always the week that holds January 4th
+        return new LocalDate(year, 1, 4).toLocalWeek().plusWeeks(week - 1);
+    }
+
+    /** Parse an ISO 8601 week, like `2024-W05` */
+    static fromIsoString(date: string) {
+        const match = /^(\d{4})-W(\d{2})$/.exec(date);
+        if (!match) throw new DateFormatError(date);
+        const [, year, week] = match.map((n) => parseInt(n, 10));
+        return LocalWeek.fromIsoWeek(year, week);
+    }
+
+    /**
+     * Parse a week strictly, either as an ISO 8601 week like `2024-W05` or in
+     * the format of {@link LocalWeek.toString}, like
+     * `2024-01-29--2024-02-04`. The second form can start on any day, which
+     * becomes the week's `weekStart`.
+     */
+    static fromString(week: string) {
+        if (/^\d{4}-W/.test(week)) {
+            const match = /^(\d{4})-W(\d{2})$/.exec(week);
+            if (!match) {
+                throw new DateFormatError(week, {
+                    position: 6,
+                    field: "week",
+                    reason: "expected a 2-digit week",
+                });
+            }
+            const number = parseInt(match[2], 10);
+            if (
+                number < 1 ||
+                number >
+                    new LocalYear(parseInt(match[1], 10)).numberOfIsoWeeks()
+            ) {
+                throw new DateFormatError(week, {
+                    position: 6,
+                    field: "week",
+                    reason: `week ${number} is out of range`,
+                });
+            }
+            return LocalWeek.fromIsoString(week);
+        }
+        const separator = week.indexOf("--");
+        if (separator < 0) {
+            throw new DateFormatError(week, {
+                reason: 'expected an ISO week or two dates joined by "--"',
+            });
+        }
+        const first = parseWithPattern(
+            week.slice(0, separator),
+            ISO_EXTENDED_PARTS,
+            week,
+            0
+        );
+        const last = parseWithPattern(
+            week.slice(separator + 2),
+            ISO_EXTENDED_PARTS,
+            week,
+            separator + 2
+        );
+        if (first.daysUntil(last) !== 6) {
+            throw new DateFormatError(week, {
+                position: separator + 2,
+                field: "day",
+                reason: "a week must end 6 days after it starts",
+            });
+        }
+        return new LocalWeek(first, first.weekday as Weekday);
     }
 
     get start(): LocalDate {
@@ -241,7 +1098,7 @@ export class LocalWeek implements LocalDatePeriod {
          *
          * Part of the {@link LocalDatePeriod} interface.
          */
-        return this.monday;
+        return this.first;
     }
 
     get end() {
@@ -249,38 +1106,40 @@ export class LocalWeek implements LocalDatePeriod {
          *
          * Part of the {@link LocalDatePeriod} interface.
          */
-        return this.sunday;
+        return this.last;
     }
 }
 
+/** The length of each month, ignoring leap years */
+const DAYS_PER_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
 /**
  * Represents a month from a specific year, without a timezone attached.
  */
-export class LocalMonth implements LocalDatePeriod {
-    private readonly date: LocalDate;
+export class LocalMonth
+    extends Comparable<LocalMonth>
+    implements LocalDatePeriod
+{
+    readonly year: number;
+    readonly month: number;
 
     /**
      * This handles weird entries for month, so "0" will be the December
      * of the previous year, and "15" will the March of the next year
      */
     constructor(year: number, month: number) {
-        this.date = new LocalDate(year, month, 1);
-    }
-
-    get year() {
-        return this.date.year;
-    }
-
-    get month() {
-        return this.date.month;
+        super();
+        const monthIndex = Math.trunc(month) - 1;
+        this.year = Math.trunc(year) + Math.floor(monthIndex / 12);
+        this.month = positiveModulo(monthIndex, 12) + 1;
     }
 
     get first() {
-        return this.date;
+        return new LocalDate(this.year, this.month, 1);
     }
 
     get last() {
-        return this.plusMonths(1).first.minusDays(1);
+        return new LocalDate(this.year, this.month, this.numberOfDays());
     }
 
     plusMonths(months: number) {
@@ -289,36 +1148,87 @@ export class LocalMonth implements LocalDatePeriod {
     minusMonths(months: number) {
         return this.plusMonths(-months);
     }
+    /** Lazily step through the months from this one to the target */
+    iterate(to: LocalMonth, options: StepOptions = {}) {
+        return stepBetween(
+            this,
+            to,
+            (month, months) => month.plusMonths(months),
+            options
+        );
+    }
 
     numberOfDays() {
-        return this.last.day;
+        if (this.month === 2) {
+            return new LocalYear(this.year).isLeapYear() ? 29 : 28;
+        }
+        return DAYS_PER_MONTH[this.month - 1];
     }
 
     weekdayStart() {
         return this.first.weekday;
     }
 
-    isAfter(month: LocalMonth) {
-        return this.toString() > month.toString();
+    /**
+     * Get a numbered weekday of the month, like the 4th Thursday. Negative
+     * numbers count from the end of the month, so -1 is the last one. Returns
+     * undefined if the month doesn't have that many, like a 5th Monday.
+     */
+    nthWeekday(weekday: Weekday, nth: number) {
+        const date =
+            nth > 0
+                ? this.first.plusDays(
+                      positiveModulo(weekday - this.first.weekday, 7) +
+                          7 * (nth - 1)
+                  )
+                : this.last.minusDays(
+                      positiveModulo(this.last.weekday - weekday, 7) +
+                          7 * (-nth - 1)
+                  );
+        if (nth === 0 || !date.toLocalMonth().equals(this)) return undefined;
+        return date;
     }
-    isBefore(month: LocalMonth) {
-        return this.toString() < month.toString();
+
+    /**
+     * The number of months since January of year 0. See
+     * {@link Comparable.valueOf}.
+     */
+    valueOf() {
+        return this.year * 12 + (this.month - 1);
     }
 
-    equals(month: LocalMonth) {
-        return this.year === month.year && this.month === month.month;
+    /** Count the months from this month to the target */
+    monthsUntil(month: LocalMonth) {
+        return (month.year - this.year) * 12 + (month.month - this.month);
     }
 
-    /**
-     * Generates an iterable of weeks in the month. A week is included if any
-     * days of that week are in the month.
-     */
-    toWeeks() {
-        const result: LocalWeek[] = [];
-        let week = this.first.toLocalWeek();
+    toQuarter() {
+        return this.first.toQuarter();
+    }
+
+    toLocalYear() {
+        return new LocalYear(this.year);
+    }
+
+    toDays() {
+        return this.first.range(this.last);
+    }
+    /** Get the exact instants this month covers in a timezone */
+    toInstantsInTz(timeZone: string) {
+        return instantsInTz(this, timeZone);
+    }
+
+    /**
+     * Generates an iterable of weeks in the month. A week is included if any
+     * days of that week are in the month. Weeks start on Monday unless
+     * `weekStart` is given.
+     */
+    toWeeks(weekStart: Weekday = 0) {
+        const result: LocalWeek[] = [];
+        let week = this.first.toLocalWeek(weekStart);
         while (
-            week.monday.toLocalMonth().equals(this) ||
-            week.sunday.toLocalMonth().equals(this)
+            week.first.toLocalMonth().equals(this) ||
+            week.last.toLocalMonth().equals(this)
         ) {
             result.push(week);
             week = week.plusWeeks(1);
@@ -327,7 +1237,36 @@ export class LocalMonth implements LocalDatePeriod {
     }
 
     toString() {
-        return `${this.year}-${formatToTwoDigits(this.month)}`;
+        return `${formatIsoYear(this.year)}-${formatToTwoDigits(this.month)}`;
+    }
+
+    /** Serialize as {@link LocalMonth.toString}, like `2024-01` */
+    toJSON() {
+        return this.toString();
+    }
+
+    /**
+     * Format the first day of the month with a pattern. See
+     * {@link LocalDate.format}.
+     */
+    format(pattern: string, locale: string | string[] = "en") {
+        return this.first.format(pattern, locale);
+    }
+
+    /** Format the month by name, like "January 2024" */
+    toLocaleString(
+        locale?: string | string[],
+        options: Intl.DateTimeFormatOptions = { year: "numeric", month: "long" }
+    ) {
+        return formatLocale(this.first, locale, options);
+    }
+
+    /** See {@link LocalDateRange.formatRange} */
+    formatRange(
+        locale?: string | string[],
+        options: Intl.DateTimeFormatOptions = DAY_RANGE_OPTIONS
+    ) {
+        return formatLocaleRange(this.first, this.last, locale, options);
     }
 
     static fromLocalDate(date: LocalDate) {
@@ -365,11 +1304,12 @@ export class LocalMonth implements LocalDatePeriod {
 
 type QuarterNumber = 1 | 2 | 3 | 4;
 
-export class Quarter implements LocalDatePeriod {
+export class Quarter extends Comparable<Quarter> implements LocalDatePeriod {
     readonly year: number;
     readonly quarter: QuarterNumber;
 
     constructor(year: number, quarter: QuarterNumber) {
+        super();
         this.year = year;
         this.quarter = quarter;
     }
@@ -382,16 +1322,3500 @@ export class Quarter implements LocalDatePeriod {
     }
 
     plusQuarters(quarters: number) {
-        const count = this.year * 4 + this.quarter + quarters;
-        // This will not handle negative years correctly
-        return new Quarter(Math.trunc(count / 4), (count % 4) as QuarterNumber);
+        const count = this.valueOf() + quarters;
+        const year = Math.floor(count / 4);
+        return new Quarter(year, (count - year * 4 + 1) as QuarterNumber);
     }
 
     minusQuarters(quarters: number) {
         return this.plusQuarters(-quarters);
     }
 
+    /** Lazily step through the quarters from this one to the target */
+    iterate(to: Quarter, options: StepOptions = {}) {
+        return stepBetween(
+            this,
+            to,
+            (quarter, quarters) => quarter.plusQuarters(quarters),
+            options
+        );
+    }
+
+    /**
+     * The number of quarters since the first quarter of year 0. See
+     * {@link Comparable.valueOf}.
+     */
+    valueOf() {
+        return this.year * 4 + (this.quarter - 1);
+    }
+
+    /** Count the quarters from this quarter to the target */
+    quartersUntil(quarter: Quarter) {
+        return (
+            (quarter.year - this.year) * 4 + (quarter.quarter - this.quarter)
+        );
+    }
+
+    toLocalYear() {
+        return new LocalYear(this.year);
+    }
+
+    toDays() {
+        return this.start.range(this.end);
+    }
+    /** Get the exact instants this quarter covers in a timezone */
+    toInstantsInTz(timeZone: string) {
+        return instantsInTz(this, timeZone);
+    }
+
+    /**
+     * Generates an iterable of weeks in the quarter. A week is included if
+     * any days of that week are in the quarter. Weeks start on Monday unless
+     * `weekStart` is given.
+     */
+    toWeeks(weekStart: Weekday = 0) {
+        return periodsCovering(this, "week", weekStart);
+    }
+
+    toMonths() {
+        return periodsCovering(this, "month");
+    }
+
     toString() {
         return `Q${this.quarter} ${this.year}`;
     }
+
+    /** Serialize as {@link Quarter.toString}, like `Q1 2024` */
+    toJSON() {
+        return this.toString();
+    }
+
+    /**
+     * Parse a quarter strictly, either in the format of
+     * {@link Quarter.toString}, like `Q1 2024`, or like `2024-Q1`.
+     */
+    static fromString(quarter: string) {
+        const match =
+            /^Q(\d) (\d{4})$/.exec(quarter) || /^(\d{4})-Q(\d)$/.exec(quarter);
+        if (!match) {
+            throw new DateFormatError(quarter, {
+                reason: 'expected a quarter like "Q1 2024" or "2024-Q1"',
+            });
+        }
+        const yearFirst = quarter[0] !== "Q";
+        const number = parseInt(yearFirst ? match[2] : match[1], 10);
+        const year = parseInt(yearFirst ? match[1] : match[2], 10);
+        if (number < 1 || number > 4) {
+            throw new DateFormatError(quarter, {
+                position: yearFirst ? 6 : 1,
+                field: "quarter",
+                reason: `quarter ${number} is out of range`,
+            });
+        }
+        return new Quarter(year, number as QuarterNumber);
+    }
+
+    /**
+     * Format the first day of the quarter with a pattern. See
+     * {@link LocalDate.format}.
+     */
+    format(pattern: string, locale: string | string[] = "en") {
+        return this.start.format(pattern, locale);
+    }
+
+    /** Format the quarter as a range of months, like "Jan – Mar 2024" */
+    toLocaleString(
+        locale?: string | string[],
+        options: Intl.DateTimeFormatOptions = {
+            year: "numeric",
+            month: "short",
+        }
+    ) {
+        return this.formatRange(locale, options);
+    }
+
+    /** See {@link LocalDateRange.formatRange} */
+    formatRange(
+        locale?: string | string[],
+        options: Intl.DateTimeFormatOptions = DAY_RANGE_OPTIONS
+    ) {
+        return formatLocaleRange(this.start, this.end, locale, options);
+    }
+}
+
+/**
+ * Represents a calendar year, without a timezone attached.
+ */
+export class LocalYear
+    extends Comparable<LocalYear>
+    implements LocalDatePeriod
+{
+    readonly year: number;
+
+    constructor(year: number) {
+        super();
+        this.year = year;
+    }
+
+    get first() {
+        return new LocalDate(this.year, 1, 1);
+    }
+
+    get last() {
+        return new LocalDate(this.year, 12, 31);
+    }
+
+    plusYears(years: number) {
+        return new LocalYear(this.year + years);
+    }
+    minusYears(years: number) {
+        return this.plusYears(-years);
+    }
+    /** Lazily step through the years from this one to the target */
+    iterate(to: LocalYear, options: StepOptions = {}) {
+        return stepBetween(
+            this,
+            to,
+            (year, years) => year.plusYears(years),
+            options
+        );
+    }
+
+    isLeapYear() {
+        return (
+            (this.year % 4 === 0 && this.year % 100 !== 0) ||
+            this.year % 400 === 0
+        );
+    }
+
+    numberOfDays() {
+        return this.isLeapYear() ? 366 : 365;
+    }
+
+    /** Get the date of Easter Sunday, on the Gregorian calendar */
+    easterSunday() {
+        // the anonymous Gregorian algorithm, also known as Meeus/Jones/Butcher
+        const year = this.year;
+        const a = year % 19;
+        const b = Math.floor(year / 100);
+        const c = year % 100;
+        const d = Math.floor(b / 4);
+        const e = b % 4;
+        const f = Math.floor((b + 8) / 25);
+        const g = Math.floor((b - f + 1) / 3);
+        const h = (19 * a + b - d - g + 15) % 30;
+        const i = Math.floor(c / 4);
+        const k = c % 4;
+        const l = (32 + 2 * e + 2 * i - h - k) % 7;
+        const m = Math.floor((a + 11 * h + 22 * l) / 451);
+        const month = Math.floor((h + l - 7 * m + 114) / 31);
+        const day = ((h + l - 7 * m + 114) % 31) + 1;
+        return new LocalDate(year, month, day);
+    }
+
+    /** The number of weeks in this ISO 8601 week-numbering year, 52 or 53 */
+    numberOfIsoWeeks() {
+        // December 28th is always in the last week of its ISO year
+        return new LocalDate(this.year, 12, 28).isoWeek;
+    }
+
+    /** The year itself. See {@link Comparable.valueOf}. */
+    valueOf() {
+        return this.year;
+    }
+
+    /** Count the years from this year to the target */
+    yearsUntil(year: LocalYear) {
+        return year.year - this.year;
+    }
+
+    /** Get the exact instants this year covers in a timezone */
+    toInstantsInTz(timeZone: string) {
+        return instantsInTz(this, timeZone);
+    }
+
+    toMonths() {
+        return LocalMonth.listForYear(this.year);
+    }
+
+    toQuarters() {
+        return range(1, 5).map(
+            (quarter) => new Quarter(this.year, quarter as QuarterNumber)
+        );
+    }
+
+    /**
+     * Generates an iterable of weeks in the year. A week is included if any
+     * days of that week are in the year. Weeks start on Monday unless
+     * `weekStart` is given.
+     */
+    toWeeks(weekStart: Weekday = 0) {
+        const result: LocalWeek[] = [];
+        let week = this.first.toLocalWeek(weekStart);
+        while (week.first.year === this.year || week.last.year === this.year) {
+            result.push(week);
+            week = week.plusWeeks(1);
+        }
+        return result;
+    }
+
+    toString() {
+        return `${this.year}`;
+    }
+
+    /** Serialize as the year number */
+    toJSON() {
+        return this.year;
+    }
+
+    /**
+     * Format the first day of the year with a pattern. See
+     * {@link LocalDate.format}.
+     */
+    format(pattern: string, locale: string | string[] = "en") {
+        return this.first.format(pattern, locale);
+    }
+
+    /** Format the year on its own, like "2024" */
+    toLocaleString(
+        locale?: string | string[],
+        options: Intl.DateTimeFormatOptions = { year: "numeric" }
+    ) {
+        return formatLocale(this.first, locale, options);
+    }
+
+    /** See {@link LocalDateRange.formatRange} */
+    formatRange(
+        locale?: string | string[],
+        options: Intl.DateTimeFormatOptions = DAY_RANGE_OPTIONS
+    ) {
+        return formatLocaleRange(this.first, this.last, locale, options);
+    }
+
+    static fromLocalDate(date: LocalDate) {
+        return new LocalYear(date.year);
+    }
+
+    static fromString(date: string) {
+        if (!/^-?\d+$/.test(date.trim())) throw new DateFormatError(date);
+        return new LocalYear(parseInt(date, 10));
+    }
+
+    get start() {
+        /** The first day of the year.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return this.first;
+    }
+
+    get end() {
+        /** The last day of the year.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return this.last;
+    }
+}
+
+/**
+ * Represents an arbitrary run of days, without a timezone attached.
+ *
+ * Like every {@link LocalDatePeriod}, a range is closed, so `end` is the last
+ * day in it. Use {@link LocalDateRange.fromHalfOpen} and `endExclusive` when
+ * working with half-open ranges, like most databases and `[start, end)`
+ * queries expect. Methods that take a period accept any of them, so a range
+ * can be checked against a `LocalWeek`, a `LocalMonth`, a `Quarter` or a
+ * single `LocalDate`.
+ */
+export class LocalDateRange implements LocalDatePeriod {
+    readonly start: LocalDate;
+    readonly end: LocalDate;
+
+    /** Throws an {@link InvalidRangeError} if `end` is before `start` */
+    constructor(start: LocalDate, end: LocalDate) {
+        if (end.isBefore(start)) throw new InvalidRangeError(start, end);
+        this.start = start;
+        this.end = end;
+    }
+
+    /** The day after the last day of the range */
+    get endExclusive() {
+        return this.end.plusDays(1);
+    }
+
+    numberOfDays() {
+        return this.start.daysUntil(this.end) + 1;
+    }
+
+    toDays() {
+        return this.start.range(this.end);
+    }
+    /** Get the exact instants this range covers in a timezone */
+    toInstantsInTz(timeZone: string) {
+        return instantsInTz(this, timeZone);
+    }
+
+    /** Whether every day of the period is in this range */
+    contains(period: LocalDatePeriod) {
+        return (
+            !period.start.isBefore(this.start) && !period.end.isAfter(this.end)
+        );
+    }
+
+    /** Whether any day of the period is in this range */
+    overlaps(period: LocalDatePeriod) {
+        return (
+            !period.end.isBefore(this.start) && !period.start.isAfter(this.end)
+        );
+    }
+
+    /** The days in both this range and the period, if there are any */
+    intersection(period: LocalDatePeriod) {
+        if (!this.overlaps(period)) return undefined;
+        return new LocalDateRange(
+            laterOf(this.start, period.start),
+            earlierOf(this.end, period.end)
+        );
+    }
+
+    /**
+     * The days in this range that aren't in the period. This can split the
+     * range in two, or leave nothing at all.
+     */
+    subtract(period: LocalDatePeriod) {
+        if (!this.overlaps(period)) return [this as LocalDateRange];
+        const result: LocalDateRange[] = [];
+        if (this.start.isBefore(period.start)) {
+            result.push(
+                new LocalDateRange(this.start, period.start.minusDays(1))
+            );
+        }
+        if (this.end.isAfter(period.end)) {
+            result.push(new LocalDateRange(period.end.plusDays(1), this.end));
+        }
+        return result;
+    }
+
+    equals(range: LocalDatePeriod) {
+        return this.start.equals(range.start) && this.end.equals(range.end);
+    }
+
+    /**
+     * Split the range into every day, week, month, quarter or year that it
+     * touches, flagging the pieces that stick out past either end. With
+     * `clip`, each piece's `start` and `end` are cut down to the days inside
+     * the range; the whole sub-period is always available as `period`.
+     */
+    split<U extends PeriodUnit>(
+        unit: U,
+        options: { clip?: boolean; weekStart?: Weekday } = {}
+    ): PeriodPiece<PeriodUnits[U]>[] {
+        const { clip = false, weekStart = 0 } = options;
+        return periodsCovering(this, unit, weekStart).map((period) => {
+            const isPartial = !this.contains(period);
+            const { start, end } =
+                clip && isPartial ? this.intersection(period)! : period;
+            return { period, start, end, isPartial };
+        });
+    }
+
+    toString() {
+        return `${this.start.toString()}--${this.end.toString()}`;
+    }
+
+    /** Serialize as {@link LocalDateRange.toString} */
+    toJSON() {
+        return this.toString();
+    }
+
+    /**
+     * Format the range with `Intl.DateTimeFormat.formatRange`, which leaves
+     * out the parts the two ends share, like "Jan 1 – 7, 2024". Like
+     * {@link LocalDate.toLocaleString}, this is always done in UTC.
+     */
+    formatRange(
+        locale?: string | string[],
+        options: Intl.DateTimeFormatOptions = DAY_RANGE_OPTIONS
+    ) {
+        return formatLocaleRange(this.start, this.end, locale, options);
+    }
+
+    /** Get a range covering the same days as any period */
+    static fromPeriod(period: LocalDatePeriod) {
+        return new LocalDateRange(period.start, period.end);
+    }
+
+    /** Get a range from a half-open `[start, endExclusive)` pair */
+    static fromHalfOpen(start: LocalDate, endExclusive: LocalDate) {
+        return new LocalDateRange(start, endExclusive.minusDays(1));
+    }
+
+    static fromString(range: string) {
+        const parts = range.split("--");
+        if (parts.length !== 2) throw new DateFormatError(range);
+        const [start, end] = parts.map((part) =>
+            LocalDate.fromDateString(part)
+        );
+        return new LocalDateRange(start, end);
+    }
+
+    /**
+     * Combine periods into the fewest ranges that cover the same days, in
+     * order. Periods that overlap or touch end to end are merged.
+     */
+    static merge(periods: LocalDatePeriod[]) {
+        const sorted = periods
+            .map((period) => LocalDateRange.fromPeriod(period))
+            .sort((a, b) => a.start.toEpochDay() - b.start.toEpochDay());
+        const result: LocalDateRange[] = [];
+        for (const range of sorted) {
+            const last = result[result.length - 1];
+            if (last && !range.start.isAfter(last.endExclusive)) {
+                result[result.length - 1] = new LocalDateRange(
+                    last.start,
+                    laterOf(last.end, range.end)
+                );
+            } else {
+                result.push(range);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Find the runs of days that aren't covered by any of the periods. Only
+     * gaps between periods are returned, unless `within` is given, in which
+     * case uncovered days at its start and end count too.
+     */
+    static gaps(periods: LocalDatePeriod[], within?: LocalDatePeriod) {
+        const merged = LocalDateRange.merge(periods);
+        if (within) {
+            return merged.reduce(
+                (remaining, range) =>
+                    remaining.flatMap((gap) => gap.subtract(range)),
+                [LocalDateRange.fromPeriod(within)]
+            );
+        }
+        const result: LocalDateRange[] = [];
+        for (let i = 1; i < merged.length; i++) {
+            result.push(
+                LocalDateRange.fromHalfOpen(
+                    merged[i - 1].endExclusive,
+                    merged[i].start
+                )
+            );
+        }
+        return result;
+    }
 }
+
+/** The periods that a {@link LocalDatePeriod} can be split into */
+export interface PeriodUnits {
+    day: LocalDate;
+    week: LocalWeek;
+    month: LocalMonth;
+    quarter: Quarter;
+    year: LocalYear;
+}
+
+export type PeriodUnit = keyof PeriodUnits;
+
+/** One part of a period split with {@link LocalDateRange.split} */
+export interface PeriodPiece<
+    T extends LocalDatePeriod,
+> extends LocalDatePeriod {
+    /** The whole sub-period, even if it extends past the range */
+    period: T;
+    /** Whether some days of `period` are outside the range */
+    isPartial: boolean;
+}
+
+/** Get the period of the given unit that holds a date */
+const periodOf = <U extends PeriodUnit>(
+    date: LocalDate,
+    unit: U,
+    weekStart: Weekday
+): PeriodUnits[U] => {
+    const periods: { [unit in PeriodUnit]: () => PeriodUnits[unit] } = {
+        day: () => date,
+        week: () => date.toLocalWeek(weekStart),
+        month: () => date.toLocalMonth(),
+        quarter: () => date.toQuarter(),
+        year: () => date.toLocalYear(),
+    };
+    return periods[unit]() as PeriodUnits[U];
+};
+
+/** Get every period of the given unit that has a day in the period */
+const periodsCovering = <U extends PeriodUnit>(
+    period: LocalDatePeriod,
+    unit: U,
+    weekStart: Weekday = 0
+) => {
+    const result: PeriodUnits[U][] = [];
+    let current = periodOf(period.start, unit, weekStart);
+    while (!current.start.isAfter(period.end)) {
+        result.push(current);
+        current = periodOf(current.end.plusDays(1), unit, weekStart);
+    }
+    return result;
+};
+
+const earlierOf = (a: LocalDate, b: LocalDate) => (b.isBefore(a) ? b : a);
+const laterOf = (a: LocalDate, b: LocalDate) => (b.isAfter(a) ? b : a);
+
+/**
+ * Find the first index in a sorted list whose value is at least `value`, or
+ * the length of the list if there isn't one.
+ */
+const lowerBound = (sorted: number[], value: number) => {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+        const middle = (low + high) >>> 1;
+        if (sorted[middle] < value) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+};
+
+/**
+ * A map keyed by the value of a period rather than by object identity, so
+ * two separately created `LocalDate`s for the same day find the same entry.
+ * Works with any of the period classes as keys; entries are always iterated
+ * in chronological order.
+ */
+export class LocalDateMap<K extends Comparable<K>, V> implements Iterable<
+    [K, V]
+> {
+    private readonly entriesByValue = new Map<number, [K, V]>();
+    // every key's value, kept sorted for ordered iteration and lookups
+    private readonly sortedValues: number[] = [];
+
+    constructor(entries: Iterable<[K, V]> = []) {
+        for (const [key, value] of entries) {
+            this.set(key, value);
+        }
+    }
+
+    get size() {
+        return this.sortedValues.length;
+    }
+
+    get(key: K) {
+        const entry = this.entriesByValue.get(key.valueOf());
+        return entry && entry[1];
+    }
+
+    has(key: K) {
+        return this.entriesByValue.has(key.valueOf());
+    }
+
+    set(key: K, value: V) {
+        const keyValue = key.valueOf();
+        if (!this.entriesByValue.has(keyValue)) {
+            const last = this.sortedValues[this.sortedValues.length - 1];
+            // time series are usually built in order, so skip the search
+            const index =
+                this.size === 0 || keyValue > last
+                    ? this.size
+                    : lowerBound(this.sortedValues, keyValue);
+            this.sortedValues.splice(index, 0, keyValue);
+        }
+        this.entriesByValue.set(keyValue, [key, value]);
+        return this;
+    }
+
+    delete(key: K) {
+        const keyValue = key.valueOf();
+        if (!this.entriesByValue.delete(keyValue)) return false;
+        this.sortedValues.splice(lowerBound(this.sortedValues, keyValue), 1);
+        return true;
+    }
+
+    clear() {
+        this.entriesByValue.clear();
+        this.sortedValues.length = 0;
+    }
+
+    /** The entry with the earliest key */
+    first() {
+        return this.entryAt(0);
+    }
+
+    /** The entry with the latest key */
+    last() {
+        return this.entryAt(this.size - 1);
+    }
+
+    /** The entry with the latest key that is the same as or before `key` */
+    floor(key: K) {
+        const keyValue = key.valueOf();
+        const index = lowerBound(this.sortedValues, keyValue);
+        return this.sortedValues[index] === keyValue
+            ? this.entryAt(index)
+            : this.entryAt(index - 1);
+    }
+
+    /** The entry with the earliest key that is the same as or after `key` */
+    ceiling(key: K) {
+        return this.entryAt(lowerBound(this.sortedValues, key.valueOf()));
+    }
+
+    /**
+     * Get the entries with keys from `start` to `end` in order, including
+     * both ends unless `inclusive` says otherwise.
+     */
+    between(start: K, end: K, inclusive: Inclusivity = "both") {
+        const result: [K, V][] = [];
+        let index = lowerBound(this.sortedValues, start.valueOf());
+        for (; index < this.size; index++) {
+            const [key, value] = this.entryAt(index)!;
+            if (key.isAfter(end)) break;
+            if (key.isBetween(start, end, inclusive)) result.push([key, value]);
+        }
+        return result;
+    }
+
+    *entries(): IterableIterator<[K, V]> {
+        // copied so entries can be changed while iterating
+        for (const keyValue of [...this.sortedValues]) {
+            const entry = this.entriesByValue.get(keyValue);
+            if (entry) yield entry;
+        }
+    }
+
+    *keys(): IterableIterator<K> {
+        for (const [key] of this.entries()) yield key;
+    }
+
+    *values(): IterableIterator<V> {
+        for (const [, value] of this.entries()) yield value;
+    }
+
+    forEach(callback: (value: V, key: K, map: this) => void) {
+        for (const [key, value] of this.entries()) callback(value, key, this);
+    }
+
+    [Symbol.iterator]() {
+        return this.entries();
+    }
+
+    private entryAt(index: number) {
+        if (index < 0 || index >= this.size) return undefined;
+        return this.entriesByValue.get(this.sortedValues[index]);
+    }
+}
+
+/**
+ * A set of periods compared by value rather than by object identity. Like
+ * {@link LocalDateMap}, it works with any of the period classes and iterates
+ * in chronological order.
+ */
+export class LocalDateSet<K extends Comparable<K>> implements Iterable<K> {
+    private readonly map: LocalDateMap<K, K>;
+
+    constructor(values: Iterable<K> = []) {
+        this.map = new LocalDateMap();
+        for (const value of values) {
+            this.add(value);
+        }
+    }
+
+    get size() {
+        return this.map.size;
+    }
+
+    has(value: K) {
+        return this.map.has(value);
+    }
+
+    add(value: K) {
+        this.map.set(value, value);
+        return this;
+    }
+
+    delete(value: K) {
+        return this.map.delete(value);
+    }
+
+    clear() {
+        this.map.clear();
+    }
+
+    /** The earliest period in the set */
+    first() {
+        return keyOf(this.map.first());
+    }
+
+    /** The latest period in the set */
+    last() {
+        return keyOf(this.map.last());
+    }
+
+    /** The latest period in the set that is the same as or before `value` */
+    floor(value: K) {
+        return keyOf(this.map.floor(value));
+    }
+
+    /** The earliest period in the set that is the same as or after `value` */
+    ceiling(value: K) {
+        return keyOf(this.map.ceiling(value));
+    }
+
+    /**
+     * Get the periods from `start` to `end` in order, including both ends
+     * unless `inclusive` says otherwise.
+     */
+    between(start: K, end: K, inclusive: Inclusivity = "both") {
+        return this.map.between(start, end, inclusive).map(([key]) => key);
+    }
+
+    values() {
+        return this.map.keys();
+    }
+
+    keys() {
+        return this.map.keys();
+    }
+
+    forEach(callback: (value: K, set: this) => void) {
+        for (const value of this.values()) callback(value, this);
+    }
+
+    [Symbol.iterator]() {
+        return this.values();
+    }
+}
+
+const keyOf = <K>(entry: [K, unknown] | undefined) => entry && entry[0];
+
+/**
+ * Knows which days are working days, for SLA and payout dates like "five
+ * business days after the invoice". A business day is any day that is
+ * neither a weekend day nor a holiday.
+ */
+export class BusinessCalendar {
+    /** The days of the week that aren't worked, 0-indexed so 0 is Monday */
+    readonly weekend: Weekday[];
+    readonly holidays: LocalDateSet<LocalDate>;
+
+    /**
+     * The weekend defaults to Saturday and Sunday. Throws a `RangeError` if
+     * every day of the week is a weekend day, since no date could ever be a
+     * business day.
+     */
+    constructor(
+        options: { weekend?: Weekday[]; holidays?: Iterable<LocalDate> } = {}
+    ) {
+        const { weekend = [5, 6], holidays = [] } = options;
+        if (new Set(weekend).size >= 7) {
+            throw new RangeError("A business calendar needs a working day");
+        }
+        this.weekend = [...weekend];
+        this.holidays = new LocalDateSet(holidays);
+    }
+
+    /** Get a copy of this calendar with more holidays */
+    withHolidays(holidays: Iterable<LocalDate>) {
+        return new BusinessCalendar({
+            weekend: this.weekend,
+            holidays: [...this.holidays, ...holidays],
+        });
+    }
+
+    isWeekend(date: LocalDate) {
+        return this.weekend.includes(date.weekday as Weekday);
+    }
+
+    isHoliday(date: LocalDate) {
+        return this.holidays.has(date);
+    }
+
+    isBusinessDay(date: LocalDate) {
+        return !this.isWeekend(date) && !this.isHoliday(date);
+    }
+
+    /** The first business day after the date */
+    nextBusinessDay(date: LocalDate) {
+        return this.plusBusinessDays(date, 1);
+    }
+
+    /** The last business day before the date */
+    previousBusinessDay(date: LocalDate) {
+        return this.plusBusinessDays(date, -1);
+    }
+
+    /**
+     * Step forward over the given number of business days, or backward if
+     * it's negative. The date itself isn't counted, so one business day
+     * after a Friday is the next Monday, and adding zero returns the date
+     * unchanged even if it isn't a business day.
+     */
+    plusBusinessDays(date: LocalDate, days: number) {
+        if (!isWholeNumberInRange(days, -Infinity, Infinity)) {
+            throw new RangeError(`Can't step by ${days} business days`);
+        }
+        const step = days < 0 ? -1 : 1;
+        let remaining = Math.abs(days);
+        let current = date;
+        while (remaining > 0) {
+            current = current.plusDays(step);
+            if (this.isBusinessDay(current)) remaining--;
+        }
+        return current;
+    }
+    minusBusinessDays(date: LocalDate, days: number) {
+        return this.plusBusinessDays(date, -days);
+    }
+
+    /**
+     * Count the business days after `start`, up to and including `end`, so
+     * that counting from a date to `plusBusinessDays(date, n)` gives `n`.
+     * When `end` is before `start`, this counts the business days from
+     * `end` up to but not including `start`, as a negative number.
+     */
+    businessDaysBetween(start: LocalDate, end: LocalDate) {
+        if (end.equals(start)) return 0;
+        if (end.isBefore(start)) {
+            const days = this.businessDaysIn(
+                new LocalDateRange(end, start.minusDays(1))
+            );
+            return days === 0 ? 0 : -days;
+        }
+        return this.businessDaysIn(new LocalDateRange(start.plusDays(1), end));
+    }
+
+    /** Get every business day in a period, like a `LocalMonth` or `Quarter` */
+    listBusinessDays(period: LocalDatePeriod) {
+        return period.start
+            .range(period.end)
+            .filter((date) => this.isBusinessDay(date));
+    }
+
+    /** Count the business days in a period, like a `LocalMonth` or `Quarter` */
+    businessDaysIn(period: LocalDatePeriod) {
+        return this.listBusinessDays(period).length;
+    }
+}
+
+/**
+ * How a holiday that lands on a weekend is observed on a working day instead:
+ *
+ * - `"nearestWeekday"` moves it to the closest working day, so with a
+ *   Saturday and Sunday weekend, Saturday holidays are observed on Friday and
+ *   Sunday holidays on Monday. This is how US federal holidays work.
+ * - `"nextWeekday"` moves it to the next working day that isn't already a
+ *   holiday, like UK substitute bank holidays.
+ */
+export type ObservedShift = "nearestWeekday" | "nextWeekday";
+
+interface BaseHolidayRule {
+    name: string;
+    observed?: ObservedShift;
+    /** The first year the holiday was held, if it hasn't always been */
+    firstYear?: number;
+    /** The last year the holiday was held, if it's been discontinued */
+    lastYear?: number;
+}
+
+/** A holiday on the same date every year, like July 4th */
+export interface FixedHolidayRule extends BaseHolidayRule {
+    type: "fixed";
+    month: number;
+    day: number;
+}
+
+/**
+ * A holiday on a numbered weekday of a month, like the 4th Thursday of
+ * November. A negative `nth` counts from the end, so -1 is the last one.
+ */
+export interface WeekdayHolidayRule extends BaseHolidayRule {
+    type: "weekday";
+    month: number;
+    weekday: Weekday;
+    nth: number;
+}
+
+/** A holiday a number of days from Easter Sunday, like Good Friday at -2 */
+export interface EasterHolidayRule extends BaseHolidayRule {
+    type: "easter";
+    offset: number;
+}
+
+export type HolidayRule =
+    FixedHolidayRule | WeekdayHolidayRule | EasterHolidayRule;
+
+export interface Holiday {
+    name: string;
+    /** The day the holiday is observed on */
+    date: LocalDate;
+    /** The day the holiday falls on, before moving it off a weekend */
+    actualDate: LocalDate;
+}
+
+/**
+ * Turns a list of {@link HolidayRule}s into the holidays for any period. The
+ * output only depends on the rules and the period, so it's the same every
+ * time it's generated.
+ */
+export class HolidaySchedule {
+    readonly rules: HolidayRule[];
+    readonly weekend: Weekday[];
+
+    /** The weekend, used for observed holidays, defaults to Saturday and Sunday */
+    constructor(rules: HolidayRule[], options: { weekend?: Weekday[] } = {}) {
+        const { weekend = [5, 6] } = options;
+        this.rules = rules;
+        this.weekend = weekend;
+    }
+
+    /** Get every holiday observed during the period, in date order */
+    holidaysIn(period: LocalDatePeriod) {
+        const within = LocalDateRange.fromPeriod(period);
+        // observed days can move into the neighbouring years
+        const years = range(period.start.year - 1, period.end.year + 2);
+        return years
+            .flatMap((year) => this.holidaysForYear(year))
+            .filter((holiday) => within.contains(holiday.date))
+            .sort((a, b) => a.date.compare(b.date));
+    }
+
+    /** Get the dates of every holiday observed during the period, in order */
+    datesIn(period: LocalDatePeriod) {
+        return this.holidaysIn(period).map((holiday) => holiday.date);
+    }
+
+    private holidaysForYear(year: number) {
+        const held = this.rules.flatMap((rule) => {
+            if (rule.firstYear !== undefined && year < rule.firstYear)
+                return [];
+            if (rule.lastYear !== undefined && year > rule.lastYear) return [];
+            const date = holidayDate(rule, year);
+            return date ? [{ rule, date }] : [];
+        });
+        // observed days can't land on another holiday
+        const taken = new LocalDateSet(held.map(({ date }) => date));
+        return held.map(({ rule, date }): Holiday => {
+            let observed = date;
+            if (rule.observed === "nearestWeekday" && this.isWeekend(date)) {
+                observed = this.nearestWeekday(date);
+            } else if (
+                rule.observed === "nextWeekday" &&
+                this.isWeekend(date)
+            ) {
+                observed = this.nextFreeWeekday(date, taken);
+            }
+            taken.add(observed);
+            return { name: rule.name, date: observed, actualDate: date };
+        });
+    }
+
+    private isWeekend(date: LocalDate) {
+        return this.weekend.includes(date.weekday as Weekday);
+    }
+
+    private nearestWeekday(date: LocalDate) {
+        for (let distance = 1; ; distance++) {
+            if (!this.isWeekend(date.minusDays(distance))) {
+                return date.minusDays(distance);
+            }
+            if (!this.isWeekend(date.plusDays(distance))) {
+                return date.plusDays(distance);
+            }
+        }
+    }
+
+    private nextFreeWeekday(date: LocalDate, taken: LocalDateSet<LocalDate>) {
+        let current = date.plusDays(1);
+        while (this.isWeekend(current) || taken.has(current)) {
+            current = current.plusDays(1);
+        }
+        return current;
+    }
+}
+
+/** Get the date a holiday falls on in a year, if it falls at all */
+const holidayDate = (rule: HolidayRule, year: number) => {
+    switch (rule.type) {
+        case "fixed":
+            return new LocalDate(year, rule.month, rule.day);
+        case "weekday":
+            return new LocalMonth(year, rule.month).nthWeekday(
+                rule.weekday,
+                rule.nth
+            );
+        case "easter":
+            return new LocalYear(year).easterSunday().plusDays(rule.offset);
+    }
+};
+
+/**
+ * US federal holidays, as observed by federal employees. Holidays on a
+ * Saturday are observed the Friday before, and on a Sunday the Monday after.
+ */
+export const US_FEDERAL_HOLIDAYS: HolidayRule[] = [
+    {
+        name: "New Year's Day",
+        type: "fixed",
+        month: 1,
+        day: 1,
+        observed: "nearestWeekday",
+    },
+    {
+        name: "Martin Luther King Jr. Day",
+        type: "weekday",
+        month: 1,
+        weekday: 0,
+        nth: 3,
+        firstYear: 1986,
+    },
+    {
+        name: "Washington's Birthday",
+        type: "weekday",
+        month: 2,
+        weekday: 0,
+        nth: 3,
+    },
+    { name: "Memorial Day", type: "weekday", month: 5, weekday: 0, nth: -1 },
+    {
+        name: "Juneteenth National Independence Day",
+        type: "fixed",
+        month: 6,
+        day: 19,
+        observed: "nearestWeekday",
+        firstYear: 2021,
+    },
+    {
+        name: "Independence Day",
+        type: "fixed",
+        month: 7,
+        day: 4,
+        observed: "nearestWeekday",
+    },
+    { name: "Labor Day", type: "weekday", month: 9, weekday: 0, nth: 1 },
+    { name: "Columbus Day", type: "weekday", month: 10, weekday: 0, nth: 2 },
+    {
+        name: "Veterans Day",
+        type: "fixed",
+        month: 11,
+        day: 11,
+        observed: "nearestWeekday",
+    },
+    {
+        name: "Thanksgiving Day",
+        type: "weekday",
+        month: 11,
+        weekday: 3,
+        nth: 4,
+    },
+    {
+        name: "Christmas Day",
+        type: "fixed",
+        month: 12,
+        day: 25,
+        observed: "nearestWeekday",
+    },
+];
+
+/**
+ * Bank holidays in England and Wales. Holidays on a weekend get a substitute
+ * day on the next free weekday. One-off moves, like the early May bank
+ * holiday in 2020, and one-off holidays for royal events aren't included.
+ */
+export const UK_BANK_HOLIDAYS: HolidayRule[] = [
+    {
+        name: "New Year's Day",
+        type: "fixed",
+        month: 1,
+        day: 1,
+        observed: "nextWeekday",
+    },
+    { name: "Good Friday", type: "easter", offset: -2 },
+    { name: "Easter Monday", type: "easter", offset: 1 },
+    {
+        name: "Early May bank holiday",
+        type: "weekday",
+        month: 5,
+        weekday: 0,
+        nth: 1,
+    },
+    {
+        name: "Spring bank holiday",
+        type: "weekday",
+        month: 5,
+        weekday: 0,
+        nth: -1,
+    },
+    {
+        name: "Summer bank holiday",
+        type: "weekday",
+        month: 8,
+        weekday: 0,
+        nth: -1,
+    },
+    {
+        name: "Christmas Day",
+        type: "fixed",
+        month: 12,
+        day: 25,
+        observed: "nextWeekday",
+    },
+    {
+        name: "Boxing Day",
+        type: "fixed",
+        month: 12,
+        day: 26,
+        observed: "nextWeekday",
+    },
+];
+
+export class RecurrenceRuleError extends Error {
+    constructor(reason: string) {
+        super(`Invalid recurrence rule: ${reason}`);
+    }
+}
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+/**
+ * A weekday in a recurrence rule. With `nth`, it's a numbered weekday of the
+ * month or year, like the 2nd Tuesday (`nth: 2`) or the last Friday
+ * (`nth: -1`); without it, it's every one of those weekdays.
+ */
+export interface RecurrenceWeekday {
+    weekday: Weekday;
+    nth?: number;
+}
+
+/**
+ * The parts of an iCalendar (RFC 5545) recurrence rule that make sense for
+ * dates without times. `start` plays the part of `DTSTART`.
+ */
+export interface RecurrenceOptions {
+    freq: Frequency;
+    start: LocalDate;
+    interval?: number;
+    count?: number;
+    until?: LocalDate;
+    byDay?: RecurrenceWeekday[];
+    /** Days of the month, where negative numbers count from the end */
+    byMonthDay?: number[];
+    byMonth?: number[];
+    /** Which of each period's dates to keep, where negative numbers count from the end */
+    bySetPos?: number[];
+    /** The first day of the week for weekly rules, Monday by default */
+    weekStart?: Weekday;
+}
+
+const WEEKDAY_CODES = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+// stop looking for rules that can never match again, like February 30th
+const MAX_EMPTY_PERIODS = 10000;
+
+/**
+ * Generates the dates of a recurring event, like "every 2nd Tuesday" or
+ * "the last weekday of each month". Occurrences are produced lazily, so
+ * rules without a `count` or `until` can still be iterated.
+ */
+export class RecurrenceRule {
+    readonly freq: Frequency;
+    readonly start: LocalDate;
+    readonly interval: number;
+    readonly count?: number;
+    readonly until?: LocalDate;
+    readonly byDay?: RecurrenceWeekday[];
+    readonly byMonthDay?: number[];
+    readonly byMonth?: number[];
+    readonly bySetPos?: number[];
+    readonly weekStart: Weekday;
+
+    /** Throws a {@link RecurrenceRuleError} if the options are out of range */
+    constructor(options: RecurrenceOptions) {
+        const { interval = 1, weekStart = 0 } = options;
+        if (!FREQUENCIES.includes(options.freq)) {
+            throw new RecurrenceRuleError(`unsupported FREQ ${options.freq}`);
+        }
+        if (!isWholeNumberInRange(interval, 1, Infinity)) {
+            throw new RecurrenceRuleError("INTERVAL must be at least 1");
+        }
+        if (options.count !== undefined && options.until !== undefined) {
+            throw new RecurrenceRuleError("COUNT and UNTIL can't both be set");
+        }
+        if (
+            options.count !== undefined &&
+            !isWholeNumberInRange(options.count, 1, Infinity)
+        ) {
+            throw new RecurrenceRuleError("COUNT must be at least 1");
+        }
+        checkList("BYMONTHDAY", options.byMonthDay, 31, true);
+        checkList("BYMONTH", options.byMonth, 12, false);
+        checkList("BYSETPOS", options.bySetPos, 366, true);
+        for (const { nth } of options.byDay || []) {
+            if (
+                nth !== undefined &&
+                !isWholeNumberInRange(Math.abs(nth), 1, 53)
+            ) {
+                throw new RecurrenceRuleError(`BYDAY can't use ${nth}`);
+            }
+        }
+        this.freq = options.freq;
+        this.start = options.start;
+        this.interval = interval;
+        this.count = options.count;
+        this.until = options.until;
+        this.byDay = options.byDay;
+        this.byMonthDay = options.byMonthDay;
+        this.byMonth = options.byMonth;
+        this.bySetPos = options.bySetPos;
+        this.weekStart = weekStart;
+    }
+
+    /**
+     * Generate every occurrence in order, from `start` until the `count` or
+     * `until` runs out. Rules with neither go on forever, so stop iterating
+     * when you have enough.
+     */
+    *occurrences(): IterableIterator<LocalDate> {
+        let emitted = 0;
+        let emptyPeriods = 0;
+        for (let period = 0; emptyPeriods < MAX_EMPTY_PERIODS; period++) {
+            const dates = this.datesInPeriod(period);
+            emptyPeriods = dates.length ? 0 : emptyPeriods + 1;
+            for (const date of dates) {
+                if (date.isBefore(this.start)) continue;
+                if (this.until && date.isAfter(this.until)) return;
+                yield date;
+                emitted++;
+                if (this.count !== undefined && emitted >= this.count) return;
+            }
+        }
+    }
+
+    /** Generate the occurrences from `from` to `to`, inclusive */
+    *between(from: LocalDate, to: LocalDate): IterableIterator<LocalDate> {
+        for (const date of this.occurrences()) {
+            if (date.isAfter(to)) return;
+            if (!date.isBefore(from)) yield date;
+        }
+    }
+
+    /** Format as an RRULE value, like `FREQ=MONTHLY;BYDAY=2TU` */
+    toString() {
+        const parts = [`FREQ=${this.freq}`];
+        if (this.interval !== 1) parts.push(`INTERVAL=${this.interval}`);
+        if (this.count !== undefined) parts.push(`COUNT=${this.count}`);
+        if (this.until) {
+            parts.push(`UNTIL=${this.until.toString().replace(/-/g, "")}`);
+        }
+        if (this.byMonth) parts.push(`BYMONTH=${this.byMonth.join(",")}`);
+        if (this.byMonthDay) {
+            parts.push(`BYMONTHDAY=${this.byMonthDay.join(",")}`);
+        }
+        if (this.byDay) {
+            const days = this.byDay.map(
+                ({ weekday, nth }) => `${nth || ""}${WEEKDAY_CODES[weekday]}`
+            );
+            parts.push(`BYDAY=${days.join(",")}`);
+        }
+        if (this.bySetPos) parts.push(`BYSETPOS=${this.bySetPos.join(",")}`);
+        if (this.weekStart !== 0) {
+            parts.push(`WKST=${WEEKDAY_CODES[this.weekStart]}`);
+        }
+        return parts.join(";");
+    }
+
+    /**
+     * Parse an RRULE value, like `FREQ=MONTHLY;BYDAY=2TU`, with or without
+     * the `RRULE:` prefix. Parts that only make sense with times, like
+     * `BYHOUR`, throw a {@link RecurrenceRuleError}.
+     */
+    static fromString(rule: string, start: LocalDate) {
+        const options: Partial<RecurrenceOptions> = { start };
+        const body = rule.trim().replace(/^RRULE:/i, "");
+        for (const part of body.split(";").filter((part) => part)) {
+            const [name, value, ...rest] = part.split("=");
+            if (value === undefined || rest.length) {
+                throw new RecurrenceRuleError(`can't read "${part}"`);
+            }
+            switch (name.toUpperCase()) {
+                case "FREQ":
+                    options.freq = value.toUpperCase() as Frequency;
+                    break;
+                case "INTERVAL":
+                    options.interval = parseRuleInteger(part, value);
+                    break;
+                case "COUNT":
+                    options.count = parseRuleInteger(part, value);
+                    break;
+                case "UNTIL":
+                    options.until = parseRuleDate(part, value);
+                    break;
+                case "BYDAY":
+                    options.byDay = value
+                        .split(",")
+                        .map((day) => parseRuleWeekday(part, day));
+                    break;
+                case "BYMONTHDAY":
+                    options.byMonthDay = parseRuleList(part, value);
+                    break;
+                case "BYMONTH":
+                    options.byMonth = parseRuleList(part, value);
+                    break;
+                case "BYSETPOS":
+                    options.bySetPos = parseRuleList(part, value);
+                    break;
+                case "WKST": {
+                    const weekday = WEEKDAY_CODES.indexOf(value.toUpperCase());
+                    if (weekday < 0) {
+                        throw new RecurrenceRuleError(`can't read "${part}"`);
+                    }
+                    options.weekStart = weekday as Weekday;
+                    break;
+                }
+                default:
+                    throw new RecurrenceRuleError(`unsupported part "${part}"`);
+            }
+        }
+        if (!options.freq) throw new RecurrenceRuleError("FREQ is required");
+        return new RecurrenceRule(options as RecurrenceOptions);
+    }
+
+    /** Get the matching dates in the nth period after the start, in order */
+    private datesInPeriod(period: number) {
+        const step = period * this.interval;
+        let dates: LocalDate[];
+        switch (this.freq) {
+            case "DAILY":
+                dates = [this.start.plusDays(step)].filter(
+                    (date) =>
+                        this.matchesMonth(date) &&
+                        this.matchesMonthDay(date) &&
+                        this.matchesWeekday(date)
+                );
+                break;
+            case "WEEKLY": {
+                const week = this.start
+                    .toLocalWeek(this.weekStart)
+                    .plusWeeks(step);
+                dates = week
+                    .toDays()
+                    .filter((date) =>
+                        this.byDay
+                            ? this.matchesWeekday(date)
+                            : date.weekday === this.start.weekday
+                    )
+                    .filter((date) => this.matchesMonth(date));
+                break;
+            }
+            case "MONTHLY": {
+                const month = this.start.toLocalMonth().plusMonths(step);
+                dates = this.matchesMonth(month.first)
+                    ? this.datesInMonth(month)
+                    : [];
+                break;
+            }
+            case "YEARLY":
+                dates = this.datesInYear(new LocalYear(this.start.year + step));
+                break;
+        }
+        return this.selectSetPositions(LocalDate.sort(dates));
+    }
+
+    private datesInMonth(month: LocalMonth) {
+        let dates: LocalDate[] | undefined;
+        if (this.byMonthDay) {
+            dates = this.byMonthDay.flatMap((day) => {
+                const date =
+                    day > 0
+                        ? new LocalDate(month.year, month.month, day)
+                        : month.last.plusDays(day + 1);
+                return date.toLocalMonth().equals(month) ? [date] : [];
+            });
+        }
+        if (this.byDay) {
+            const weekdays = this.byDay.flatMap(({ weekday, nth }) => {
+                if (nth === undefined) {
+                    return month.toDays().filter((d) => d.weekday === weekday);
+                }
+                const date = month.nthWeekday(weekday, nth);
+                return date ? [date] : [];
+            });
+            dates = dates
+                ? dates.filter((date) => weekdays.some((d) => d.equals(date)))
+                : weekdays;
+        }
+        if (!dates) {
+            const date = new LocalDate(month.year, month.month, this.start.day);
+            dates = date.toLocalMonth().equals(month) ? [date] : [];
+        }
+        return uniqueDates(dates);
+    }
+
+    private datesInYear(year: LocalYear) {
+        if (this.byMonth) {
+            return this.byMonth.flatMap((month) =>
+                this.datesInMonth(new LocalMonth(year.year, month))
+            );
+        }
+        if (this.byMonthDay) {
+            return year.toMonths().flatMap((month) => this.datesInMonth(month));
+        }
+        if (this.byDay) {
+            // without BYMONTH, numbered weekdays count through the whole year
+            const days = year.first.range(year.last);
+            return uniqueDates(
+                this.byDay.flatMap(({ weekday, nth }) => {
+                    const matching = days.filter((d) => d.weekday === weekday);
+                    if (nth === undefined) return matching;
+                    const date =
+                        matching[nth > 0 ? nth - 1 : matching.length + nth];
+                    return date ? [date] : [];
+                })
+            );
+        }
+        const date = new LocalDate(year.year, this.start.month, this.start.day);
+        return date.month === this.start.month ? [date] : [];
+    }
+
+    private selectSetPositions(dates: LocalDate[]) {
+        if (!this.bySetPos) return dates;
+        return uniqueDates(
+            this.bySetPos.flatMap((position) => {
+                const date =
+                    dates[
+                        position > 0 ? position - 1 : dates.length + position
+                    ];
+                return date ? [date] : [];
+            })
+        );
+    }
+
+    private matchesMonth(date: LocalDate) {
+        return !this.byMonth || this.byMonth.includes(date.month);
+    }
+
+    private matchesMonthDay(date: LocalDate) {
+        if (!this.byMonthDay) return true;
+        const fromEnd = date.day - date.toLocalMonth().numberOfDays() - 1;
+        return (
+            this.byMonthDay.includes(date.day) ||
+            this.byMonthDay.includes(fromEnd)
+        );
+    }
+
+    private matchesWeekday(date: LocalDate) {
+        return (
+            !this.byDay ||
+            this.byDay.some(({ weekday }) => weekday === date.weekday)
+        );
+    }
+}
+
+/** Sort dates and drop the duplicates */
+const uniqueDates = (dates: LocalDate[]) =>
+    LocalDate.sort(dates).filter(
+        (date, i, sorted) => i === 0 || !date.equals(sorted[i - 1])
+    );
+
+const isWholeNumberInRange = (value: number, min: number, max: number) =>
+    Number.isInteger(value) && value >= min && value <= max;
+
+/** Check a list of numbers that can't be zero, and can count from the end */
+const checkList = (
+    name: string,
+    values: number[] | undefined,
+    max: number,
+    allowNegative: boolean
+) => {
+    for (const value of values || []) {
+        const size = allowNegative ? Math.abs(value) : value;
+        if (!isWholeNumberInRange(size, 1, max)) {
+            throw new RecurrenceRuleError(`${name} can't use ${value}`);
+        }
+    }
+};
+
+const parseRuleInteger = (part: string, value: string) => {
+    if (!/^[+-]?\d+$/.test(value)) {
+        throw new RecurrenceRuleError(`can't read "${part}"`);
+    }
+    return parseInt(value, 10);
+};
+
+const parseRuleList = (part: string, value: string) =>
+    value.split(",").map((item) => parseRuleInteger(part, item));
+
+/** Read an RRULE weekday, like `MO`, `2TU` or `-1FR` */
+const parseRuleWeekday = (part: string, day: string): RecurrenceWeekday => {
+    const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/i.exec(day);
+    if (!match) throw new RecurrenceRuleError(`can't read "${part}"`);
+    const weekday = WEEKDAY_CODES.indexOf(match[2].toUpperCase()) as Weekday;
+    return match[1] ? { weekday, nth: parseInt(match[1], 10) } : { weekday };
+};
+
+/** Read an RRULE date, like `20241231`, ignoring any time on the end */
+const parseRuleDate = (part: string, value: string) => {
+    const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+    if (!match) throw new RecurrenceRuleError(`can't read "${part}"`);
+    const [, year, month, day] = match.map((n) => parseInt(n, 10));
+    return new LocalDate(year, month, day);
+};
+
+type DateField = "year" | "month" | "day";
+
+/** A piece of a parse pattern: either text to match or a number to read */
+type ParsePart =
+    | { literal: string }
+    | {
+          field: DateField;
+          minDigits: number;
+          maxDigits: number;
+          signed?: boolean;
+      };
+
+const ISO_EXTENDED_PARTS: ParsePart[] = [
+    { field: "year", minDigits: 4, maxDigits: 4, signed: true },
+    { literal: "-" },
+    { field: "month", minDigits: 2, maxDigits: 2 },
+    { literal: "-" },
+    { field: "day", minDigits: 2, maxDigits: 2 },
+];
+
+const ISO_BASIC_PARTS: ParsePart[] = [
+    { field: "year", minDigits: 4, maxDigits: 4 },
+    { field: "month", minDigits: 2, maxDigits: 2 },
+    { field: "day", minDigits: 2, maxDigits: 2 },
+];
+
+const PARSE_TOKENS = /'((?:[^']|'')*)'|y+|M+|d+|[a-zA-Z]|[^a-zA-Z']+/g;
+
+/** Turn a pattern like `dd/MM/yyyy` into parts, see {@link LocalDate.parse} */
+const compileParsePattern = (pattern: string) => {
+    const parts: ParsePart[] = [];
+    let match: RegExpExecArray | null;
+    PARSE_TOKENS.lastIndex = 0;
+    while ((match = PARSE_TOKENS.exec(pattern))) {
+        const [token, quoted] = match;
+        if (quoted !== undefined) {
+            parts.push({ literal: quoted ? quoted.replace(/''/g, "'") : "'" });
+        } else if (token === "yyyy") {
+            parts.push({ field: "year", minDigits: 4, maxDigits: 4 });
+        } else if (token === "y") {
+            parts.push({ field: "year", minDigits: 1, maxDigits: 6 });
+        } else if (token === "MM" || token === "dd") {
+            const field = token === "MM" ? "month" : "day";
+            parts.push({ field, minDigits: 2, maxDigits: 2 });
+        } else if (token === "M" || token === "d") {
+            const field = token === "M" ? "month" : "day";
+            parts.push({ field, minDigits: 1, maxDigits: 2 });
+        } else if (/^[a-zA-Z]/.test(token)) {
+            throw new DateFormatError(pattern, {
+                position: match.index,
+                field: "pattern",
+                reason: `unsupported token "${token}"`,
+            });
+        } else {
+            parts.push({ literal: token });
+        }
+    }
+    for (const field of ["year", "month", "day"]) {
+        if (!parts.some((part) => "field" in part && part.field === field)) {
+            throw new DateFormatError(pattern, {
+                field: "pattern",
+                reason: `the pattern has no ${field}`,
+            });
+        }
+    }
+    return parts;
+};
+
+/**
+ * Read a date from the input, part by part, rejecting anything that doesn't
+ * match or is out of range. `fullInput` and `offset` let this parse part of a
+ * larger string while reporting positions in the whole thing.
+ */
+const parseWithPattern = (
+    input: string,
+    parts: ParsePart[],
+    fullInput = input,
+    offset = 0
+) => {
+    const fail = (
+        position: number,
+        field: string | undefined,
+        reason: string
+    ) =>
+        new DateFormatError(fullInput, {
+            position: offset + position,
+            field,
+            reason,
+        });
+    const values: {
+        [field in DateField]?: { value: number; position: number };
+    } = {};
+    let position = 0;
+    for (const part of parts) {
+        if ("literal" in part) {
+            if (!input.startsWith(part.literal, position)) {
+                throw fail(position, undefined, `expected "${part.literal}"`);
+            }
+            position += part.literal.length;
+            continue;
+        }
+        const start = position;
+        let sign = 1;
+        let maxDigits = part.maxDigits;
+        if (
+            part.signed &&
+            (input[position] === "+" || input[position] === "-")
+        ) {
+            // expanded years need a sign, and can have up to 6 digits
+            sign = input[position] === "-" ? -1 : 1;
+            maxDigits = 6;
+            position++;
+        }
+        let digits = "";
+        while (
+            digits.length < maxDigits &&
+            position < input.length &&
+            input[position] >= "0" &&
+            input[position] <= "9"
+        ) {
+            digits += input[position++];
+        }
+        if (digits.length < part.minDigits) {
+            throw fail(
+                start,
+                part.field,
+                part.minDigits === part.maxDigits
+                    ? `expected a ${part.minDigits}-digit ${part.field}`
+                    : `expected a ${part.field}`
+            );
+        }
+        values[part.field] = {
+            value: sign * parseInt(digits, 10),
+            position: start,
+        };
+    }
+    if (position < input.length) {
+        throw fail(position, undefined, "unexpected text at the end");
+    }
+    // every pattern has all three fields, see compileParsePattern
+    const { year, month, day } = values as Required<typeof values>;
+    if (month.value < 1 || month.value > 12) {
+        throw fail(
+            month.position,
+            "month",
+            `month ${month.value} is out of range`
+        );
+    }
+    const numberOfDays = new LocalMonth(year.value, month.value).numberOfDays();
+    if (day.value < 1 || day.value > numberOfDays) {
+        throw fail(
+            day.position,
+            "day",
+            `day ${day.value} is out of range for ${year.value}-${formatToTwoDigits(month.value)}`
+        );
+    }
+    return new LocalDate(year.value, month.value, day.value);
+};
+
+/**
+ * Whether a fiscal year is named after the calendar year it starts in or the
+ * one it ends in. With an April start, April 2024 to March 2025 is FY24 when
+ * named by `"startYear"` and FY25 when named by `"endYear"`.
+ */
+export type FiscalYearNaming = "startYear" | "endYear";
+
+/**
+ * Describes a fiscal year that starts on the first of any month, and maps
+ * dates to the fiscal years, quarters and months that hold them. Fiscal
+ * periods serialize to JSON as their labels, without the calendar.
+ */
+export class FiscalCalendar {
+    /** The month the fiscal year starts in, 1-indexed so 1 is January */
+    readonly startMonth: number;
+    readonly naming: FiscalYearNaming;
+
+    /**
+     * Fiscal years are named after the year they end in by default. Throws
+     * a `RangeError` if the start month isn't from 1 to 12.
+     */
+    constructor(startMonth: number, naming: FiscalYearNaming = "endYear") {
+        if (!isWholeNumberInRange(startMonth, 1, 12)) {
+            throw new RangeError(`Fiscal years can't start in ${startMonth}`);
+        }
+        this.startMonth = startMonth;
+        this.naming = naming;
+    }
+
+    /** Get the calendar year that a fiscal year starts in */
+    startYearOf(fiscalYear: number) {
+        return this.spansTwoYears() ? fiscalYear - 1 : fiscalYear;
+    }
+
+    yearOf(date: LocalDate) {
+        const startYear =
+            date.month >= this.startMonth ? date.year : date.year - 1;
+        return new FiscalYear(
+            this,
+            this.spansTwoYears() ? startYear + 1 : startYear
+        );
+    }
+
+    quarterOf(date: LocalDate) {
+        return this.monthOf(date).toFiscalQuarter();
+    }
+
+    monthOf(date: LocalDate) {
+        const year = this.yearOf(date);
+        const months = year.start
+            .toLocalMonth()
+            .monthsUntil(date.toLocalMonth());
+        return new FiscalMonth(this, year.year, months + 1);
+    }
+
+    year(year: number) {
+        return new FiscalYear(this, year);
+    }
+
+    quarter(year: number, quarter: QuarterNumber) {
+        return new FiscalQuarter(this, year, quarter);
+    }
+
+    month(year: number, month: number) {
+        return new FiscalMonth(this, year, month);
+    }
+
+    equals(calendar: FiscalCalendar) {
+        return (
+            this.startMonth === calendar.startMonth &&
+            this.naming === calendar.naming
+        );
+    }
+
+    /** Whether fiscal years are named one more than the year they start in */
+    private spansTwoYears() {
+        return this.naming === "endYear" && this.startMonth !== 1;
+    }
+}
+
+/** Label a fiscal year like `FY25` */
+const fiscalYearLabel = (year: number) =>
+    `FY${formatToTwoDigits(positiveModulo(year, 100))}`;
+
+/**
+ * Represents a fiscal year of a {@link FiscalCalendar}. Comparing fiscal
+ * years only makes sense when they come from the same calendar.
+ */
+export class FiscalYear
+    extends Comparable<FiscalYear>
+    implements LocalDatePeriod
+{
+    readonly calendar: FiscalCalendar;
+    /** The year the fiscal year is named after */
+    readonly year: number;
+
+    constructor(calendar: FiscalCalendar, year: number) {
+        super();
+        this.calendar = calendar;
+        this.year = year;
+    }
+
+    get start() {
+        /** The first day of the fiscal year.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return new LocalDate(
+            this.calendar.startYearOf(this.year),
+            this.calendar.startMonth,
+            1
+        );
+    }
+
+    get end() {
+        /** The last day of the fiscal year.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return this.plusYears(1).start.minusDays(1);
+    }
+
+    /** The year itself. See {@link Comparable.valueOf}. */
+    valueOf() {
+        return this.year;
+    }
+
+    plusYears(years: number) {
+        return new FiscalYear(this.calendar, this.year + years);
+    }
+    minusYears(years: number) {
+        return this.plusYears(-years);
+    }
+
+    toQuarters() {
+        return range(1, 5).map(
+            (quarter) =>
+                new FiscalQuarter(
+                    this.calendar,
+                    this.year,
+                    quarter as QuarterNumber
+                )
+        );
+    }
+
+    toMonths() {
+        return range(1, 13).map(
+            (month) => new FiscalMonth(this.calendar, this.year, month)
+        );
+    }
+
+    /** Label the fiscal year, like `FY25` */
+    toString() {
+        return fiscalYearLabel(this.year);
+    }
+
+    /** Serialize as the label, like `FY25` */
+    toJSON() {
+        return this.toString();
+    }
+}
+
+/** Represents a quarter of a {@link FiscalYear}. */
+export class FiscalQuarter
+    extends Comparable<FiscalQuarter>
+    implements LocalDatePeriod
+{
+    readonly calendar: FiscalCalendar;
+    /** The year the fiscal year is named after */
+    readonly year: number;
+    readonly quarter: QuarterNumber;
+
+    constructor(
+        calendar: FiscalCalendar,
+        year: number,
+        quarter: QuarterNumber
+    ) {
+        super();
+        this.calendar = calendar;
+        this.year = year;
+        this.quarter = quarter;
+    }
+
+    get start() {
+        /** The first day of the fiscal quarter.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return this.toMonths()[0].start;
+    }
+
+    get end() {
+        /** The last day of the fiscal quarter.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return this.toMonths()[2].end;
+    }
+
+    /**
+     * The number of quarters since the first quarter of fiscal year 0. See
+     * {@link Comparable.valueOf}.
+     */
+    valueOf() {
+        return this.year * 4 + (this.quarter - 1);
+    }
+
+    plusQuarters(quarters: number) {
+        const count = this.valueOf() + quarters;
+        const year = Math.floor(count / 4);
+        return new FiscalQuarter(
+            this.calendar,
+            year,
+            (count - year * 4 + 1) as QuarterNumber
+        );
+    }
+    minusQuarters(quarters: number) {
+        return this.plusQuarters(-quarters);
+    }
+
+    toFiscalYear() {
+        return new FiscalYear(this.calendar, this.year);
+    }
+
+    toMonths() {
+        return range(1, 4).map(
+            (month) =>
+                new FiscalMonth(
+                    this.calendar,
+                    this.year,
+                    (this.quarter - 1) * 3 + month
+                )
+        );
+    }
+
+    /** Label the fiscal quarter, like `FY25 Q2` */
+    toString() {
+        return `${fiscalYearLabel(this.year)} Q${this.quarter}`;
+    }
+
+    /** Serialize as the label, like `FY25 Q2` */
+    toJSON() {
+        return this.toString();
+    }
+}
+
+/**
+ * Represents a month of a {@link FiscalYear}, numbered from 1 for the first
+ * month of the fiscal year to 12 for the last.
+ */
+export class FiscalMonth
+    extends Comparable<FiscalMonth>
+    implements LocalDatePeriod
+{
+    readonly calendar: FiscalCalendar;
+    /** The year the fiscal year is named after */
+    readonly year: number;
+    readonly month: number;
+
+    /**
+     * Like {@link LocalMonth}, this handles months outside of 1 to 12 by
+     * moving into the fiscal years before or after.
+     */
+    constructor(calendar: FiscalCalendar, year: number, month: number) {
+        super();
+        const monthIndex = Math.trunc(month) - 1;
+        this.calendar = calendar;
+        this.year = Math.trunc(year) + Math.floor(monthIndex / 12);
+        this.month = positiveModulo(monthIndex, 12) + 1;
+    }
+
+    get start() {
+        /** The first day of the fiscal month.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return this.toLocalMonth().first;
+    }
+
+    get end() {
+        /** The last day of the fiscal month.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return this.toLocalMonth().last;
+    }
+
+    /**
+     * The number of months since the start of fiscal year 0. See
+     * {@link Comparable.valueOf}.
+     */
+    valueOf() {
+        return this.year * 12 + (this.month - 1);
+    }
+
+    plusMonths(months: number) {
+        return new FiscalMonth(this.calendar, this.year, this.month + months);
+    }
+    minusMonths(months: number) {
+        return this.plusMonths(-months);
+    }
+
+    /** The calendar month this fiscal month covers */
+    toLocalMonth() {
+        return new LocalMonth(
+            this.calendar.startYearOf(this.year),
+            this.calendar.startMonth + this.month - 1
+        );
+    }
+
+    toFiscalQuarter() {
+        return new FiscalQuarter(
+            this.calendar,
+            this.year,
+            Math.ceil(this.month / 3) as QuarterNumber
+        );
+    }
+
+    toFiscalYear() {
+        return new FiscalYear(this.calendar, this.year);
+    }
+
+    /** Label the fiscal month, like `FY25 M04` */
+    toString() {
+        return `${fiscalYearLabel(this.year)} M${formatToTwoDigits(this.month)}`;
+    }
+
+    /** Serialize as the label, like `FY25 M04` */
+    toJSON() {
+        return this.toString();
+    }
+}
+
+/**
+ * How the four quarters of a retail year split into periods, by the number
+ * of weeks in each of the quarter's three periods.
+ */
+export type RetailPattern = "4-4-5" | "4-5-4" | "5-4-4";
+
+/**
+ * Where a retail year ends: on the last day of the week that falls either
+ * last in a month (`"last"`), or nearest to the end of the month
+ * (`"nearest"`), which may be a few days into the next month.
+ */
+export interface RetailYearEnd {
+    /** 1-indexed so 1 is January */
+    month: number;
+    rule: "last" | "nearest";
+}
+
+export interface RetailCalendarOptions {
+    pattern: RetailPattern;
+    yearEnd: RetailYearEnd;
+    /** Defaults to Monday */
+    weekStart?: Weekday;
+    /**
+     * Retail years that span two calendar years are named after the year
+     * they end in by default.
+     */
+    naming?: FiscalYearNaming;
+}
+
+/**
+ * Describes a 52/53-week retail calendar, like the NRF 4-5-4 calendar, where
+ * years, quarters and periods are made of whole weeks. Years that gain a
+ * 53rd week add it to the final period of the year. Like fiscal periods,
+ * retail periods serialize to JSON as their labels.
+ */
+export class RetailCalendar {
+    readonly pattern: RetailPattern;
+    readonly yearEnd: RetailYearEnd;
+    readonly weekStart: Weekday;
+    readonly naming: FiscalYearNaming;
+
+    /** Throws a `RangeError` if the year end month isn't from 1 to 12 */
+    constructor(options: RetailCalendarOptions) {
+        const { pattern, yearEnd, weekStart = 0, naming = "endYear" } = options;
+        if (!isWholeNumberInRange(yearEnd.month, 1, 12)) {
+            throw new RangeError(
+                `Retail years can't end in month ${yearEnd.month}`
+            );
+        }
+        this.pattern = pattern;
+        this.yearEnd = { ...yearEnd };
+        this.weekStart = weekStart;
+        this.naming = naming;
+    }
+
+    /** Get the last day of a retail year */
+    endOfYear(year: number) {
+        const spansTwoYears =
+            this.naming === "startYear" && this.yearEnd.month !== 12;
+        const monthEnd = new LocalMonth(
+            spansTwoYears ? year + 1 : year,
+            this.yearEnd.month
+        ).last;
+        const lastWeekday = (this.weekStart + 6) % 7;
+        const daysBack = positiveModulo(monthEnd.weekday - lastWeekday, 7);
+        if (this.yearEnd.rule === "nearest" && daysBack > 3) {
+            return monthEnd.plusDays(7 - daysBack);
+        }
+        return monthEnd.minusDays(daysBack);
+    }
+
+    yearOf(date: LocalDate) {
+        let year = date.year;
+        while (date.isAfter(this.endOfYear(year))) year++;
+        while (date.isSameOrBefore(this.endOfYear(year - 1))) year--;
+        return new RetailYear(this, year);
+    }
+
+    quarterOf(date: LocalDate) {
+        return this.periodOf(date).toRetailQuarter();
+    }
+
+    periodOf(date: LocalDate) {
+        return this.weekOf(date).toRetailPeriod();
+    }
+
+    weekOf(date: LocalDate) {
+        const year = this.yearOf(date);
+        const week = Math.floor(year.start.daysUntil(date) / 7) + 1;
+        return new RetailWeek(this, year.year, week);
+    }
+
+    year(year: number) {
+        return new RetailYear(this, year);
+    }
+
+    quarter(year: number, quarter: QuarterNumber) {
+        return new RetailQuarter(this, year, quarter);
+    }
+
+    period(year: number, period: number) {
+        return new RetailPeriod(this, year, period);
+    }
+
+    week(year: number, week: number) {
+        return new RetailWeek(this, year, week);
+    }
+
+    /** Get the number of weeks in each of the twelve periods of a year */
+    periodLengths(year: number) {
+        const quarter = this.pattern.split("-").map(Number);
+        const lengths = range(4).flatMap(() => quarter);
+        lengths[11] += this.year(year).numberOfWeeks - 52;
+        return lengths;
+    }
+}
+
+/** Represents a 52 or 53 week year of a {@link RetailCalendar}. */
+export class RetailYear
+    extends Comparable<RetailYear>
+    implements LocalDatePeriod
+{
+    readonly calendar: RetailCalendar;
+    readonly year: number;
+
+    constructor(calendar: RetailCalendar, year: number) {
+        super();
+        this.calendar = calendar;
+        this.year = year;
+    }
+
+    get start() {
+        /** The first day of the retail year.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return this.calendar.endOfYear(this.year - 1).plusDays(1);
+    }
+
+    get end() {
+        /** The last day of the retail year.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return this.calendar.endOfYear(this.year);
+    }
+
+    get numberOfWeeks() {
+        return (this.start.daysUntil(this.end) + 1) / 7;
+    }
+
+    /** Whether this year has a 53rd week */
+    get hasExtraWeek() {
+        return this.numberOfWeeks === 53;
+    }
+
+    /** The year itself. See {@link Comparable.valueOf}. */
+    valueOf() {
+        return this.year;
+    }
+
+    plusYears(years: number) {
+        return new RetailYear(this.calendar, this.year + years);
+    }
+    minusYears(years: number) {
+        return this.plusYears(-years);
+    }
+
+    toQuarters() {
+        return range(1, 5).map(
+            (quarter) =>
+                new RetailQuarter(
+                    this.calendar,
+                    this.year,
+                    quarter as QuarterNumber
+                )
+        );
+    }
+
+    toPeriods() {
+        return range(1, 13).map(
+            (period) => new RetailPeriod(this.calendar, this.year, period)
+        );
+    }
+
+    toWeeks() {
+        return range(1, this.numberOfWeeks + 1).map(
+            (week) => new RetailWeek(this.calendar, this.year, week)
+        );
+    }
+
+    toString() {
+        return `${this.year}`;
+    }
+
+    /** Serialize as the label, like `2024` */
+    toJSON() {
+        return this.toString();
+    }
+}
+
+/** Represents a quarter of a {@link RetailYear}: three whole periods. */
+export class RetailQuarter
+    extends Comparable<RetailQuarter>
+    implements LocalDatePeriod
+{
+    readonly calendar: RetailCalendar;
+    readonly year: number;
+    readonly quarter: QuarterNumber;
+
+    constructor(
+        calendar: RetailCalendar,
+        year: number,
+        quarter: QuarterNumber
+    ) {
+        super();
+        this.calendar = calendar;
+        this.year = year;
+        this.quarter = quarter;
+    }
+
+    get start() {
+        /** The first day of the retail quarter.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return this.toPeriods()[0].start;
+    }
+
+    get end() {
+        /** The last day of the retail quarter.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return this.toPeriods()[2].end;
+    }
+
+    /**
+     * The number of quarters since the first quarter of retail year 0. See
+     * {@link Comparable.valueOf}.
+     */
+    valueOf() {
+        return this.year * 4 + (this.quarter - 1);
+    }
+
+    plusQuarters(quarters: number) {
+        const count = this.valueOf() + quarters;
+        const year = Math.floor(count / 4);
+        return new RetailQuarter(
+            this.calendar,
+            year,
+            (count - year * 4 + 1) as QuarterNumber
+        );
+    }
+    minusQuarters(quarters: number) {
+        return this.plusQuarters(-quarters);
+    }
+
+    toRetailYear() {
+        return new RetailYear(this.calendar, this.year);
+    }
+
+    toPeriods() {
+        return range(1, 4).map(
+            (period) =>
+                new RetailPeriod(
+                    this.calendar,
+                    this.year,
+                    (this.quarter - 1) * 3 + period
+                )
+        );
+    }
+
+    toWeeks() {
+        return this.toPeriods().flatMap((period) => period.toWeeks());
+    }
+
+    /** Label the quarter, like `2024 Q1` */
+    toString() {
+        return `${this.year} Q${this.quarter}`;
+    }
+
+    /** Serialize as the label, like `2024 Q1` */
+    toJSON() {
+        return this.toString();
+    }
+}
+
+/**
+ * Represents one of the twelve periods of a {@link RetailYear}, the retail
+ * equivalent of a month, which always holds four or five whole weeks.
+ */
+export class RetailPeriod
+    extends Comparable<RetailPeriod>
+    implements LocalDatePeriod
+{
+    readonly calendar: RetailCalendar;
+    readonly year: number;
+    readonly period: number;
+
+    /**
+     * Like {@link LocalMonth}, this handles periods outside of 1 to 12 by
+     * moving into the years before or after.
+     */
+    constructor(calendar: RetailCalendar, year: number, period: number) {
+        super();
+        const periodIndex = Math.trunc(period) - 1;
+        this.calendar = calendar;
+        this.year = Math.trunc(year) + Math.floor(periodIndex / 12);
+        this.period = positiveModulo(periodIndex, 12) + 1;
+    }
+
+    get start() {
+        /** The first day of the period.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return this.firstWeek().start;
+    }
+
+    get end() {
+        /** The last day of the period.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return this.start.plusWeeks(this.numberOfWeeks).minusDays(1);
+    }
+
+    /** Four or five, depending on the pattern and any 53rd week */
+    get numberOfWeeks() {
+        return this.calendar.periodLengths(this.year)[this.period - 1];
+    }
+
+    /**
+     * The number of periods since the first period of retail year 0. See
+     * {@link Comparable.valueOf}.
+     */
+    valueOf() {
+        return this.year * 12 + (this.period - 1);
+    }
+
+    plusPeriods(periods: number) {
+        return new RetailPeriod(
+            this.calendar,
+            this.year,
+            this.period + periods
+        );
+    }
+    minusPeriods(periods: number) {
+        return this.plusPeriods(-periods);
+    }
+
+    toRetailQuarter() {
+        return new RetailQuarter(
+            this.calendar,
+            this.year,
+            Math.ceil(this.period / 3) as QuarterNumber
+        );
+    }
+
+    toRetailYear() {
+        return new RetailYear(this.calendar, this.year);
+    }
+
+    toWeeks() {
+        const first = this.firstWeek().week;
+        return range(first, first + this.numberOfWeeks).map(
+            (week) => new RetailWeek(this.calendar, this.year, week)
+        );
+    }
+
+    /** Label the period, like `2024 P03` */
+    toString() {
+        return `${this.year} P${formatToTwoDigits(this.period)}`;
+    }
+
+    /** Serialize as the label, like `2024 P03` */
+    toJSON() {
+        return this.toString();
+    }
+
+    private firstWeek() {
+        const weeksBefore = this.calendar
+            .periodLengths(this.year)
+            .slice(0, this.period - 1)
+            .reduce((total, weeks) => total + weeks, 0);
+        return new RetailWeek(this.calendar, this.year, weeksBefore + 1);
+    }
+}
+
+/** Represents a numbered week of a {@link RetailYear}, from 1 to 52 or 53. */
+export class RetailWeek
+    extends Comparable<RetailWeek>
+    implements LocalDatePeriod
+{
+    readonly calendar: RetailCalendar;
+    readonly year: number;
+    readonly week: number;
+
+    /** Throws a `RangeError` if the year doesn't have that week */
+    constructor(calendar: RetailCalendar, year: number, week: number) {
+        super();
+        const weeks = new RetailYear(calendar, year).numberOfWeeks;
+        if (!isWholeNumberInRange(week, 1, weeks)) {
+            throw new RangeError(`${year} doesn't have a week ${week}`);
+        }
+        this.calendar = calendar;
+        this.year = year;
+        this.week = week;
+    }
+
+    get start() {
+        /** The first day of the week.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return new RetailYear(this.calendar, this.year).start.plusWeeks(
+            this.week - 1
+        );
+    }
+
+    get end() {
+        /** The last day of the week.
+         *
+         * Part of the {@link LocalDatePeriod} interface.
+         */
+        return this.start.plusDays(6);
+    }
+
+    /** The start date's value. See {@link Comparable.valueOf}. */
+    valueOf() {
+        return this.start.valueOf();
+    }
+
+    /** Steps across year ends, whether the years have 52 or 53 weeks */
+    plusWeeks(weeks: number) {
+        return this.calendar.weekOf(this.start.plusWeeks(weeks));
+    }
+    minusWeeks(weeks: number) {
+        return this.plusWeeks(-weeks);
+    }
+
+    toLocalWeek() {
+        return new LocalWeek(this.start, this.calendar.weekStart);
+    }
+
+    toRetailPeriod() {
+        const lengths = this.calendar.periodLengths(this.year);
+        let period = 0;
+        for (let weeks = lengths[0]; weeks < this.week;) {
+            weeks += lengths[++period];
+        }
+        return new RetailPeriod(this.calendar, this.year, period + 1);
+    }
+
+    toRetailQuarter() {
+        return this.toRetailPeriod().toRetailQuarter();
+    }
+
+    toRetailYear() {
+        return new RetailYear(this.calendar, this.year);
+    }
+
+    /** Label the week, like `2024 W05` */
+    toString() {
+        return `${this.year} W${formatToTwoDigits(this.week)}`;
+    }
+
+    /** Serialize as the label, like `2024 W05` */
+    toJSON() {
+        return this.toString();
+    }
+}
+
+/** A source of the current time, so code that asks for it can be tested */
+export interface Clock {
+    now(): Date;
+}
+
+/** Reads the time from the system, like `new Date()` */
+export const systemClock: Clock = {
+    now: () => new Date(),
+};
+
+/** Always reads the same instant */
+export class FixedClock implements Clock {
+    private readonly instant: number;
+
+    constructor(instant: Date) {
+        this.instant = instant.getTime();
+    }
+
+    now() {
+        return new Date(this.instant);
+    }
+}
+
+/** Reads the time from another clock, shifted by some milliseconds */
+export class OffsetClock implements Clock {
+    readonly clock: Clock;
+    readonly offset: number;
+
+    constructor(clock: Clock, offset: number) {
+        this.clock = clock;
+        this.offset = offset;
+    }
+
+    now() {
+        return new Date(this.clock.now().getTime() + this.offset);
+    }
+}
+
+/**
+ * Finds periods relative to today in a timezone, like "last week" or "the
+ * last three complete months", reading today from a {@link Clock}.
+ */
+export class RelativePeriods {
+    readonly timeZone: string;
+    readonly clock: Clock;
+    readonly weekStart: Weekday;
+
+    /** The clock defaults to the system clock and weeks start on Monday */
+    constructor(
+        timeZone: string,
+        options: { clock?: Clock; weekStart?: Weekday } = {}
+    ) {
+        const { clock = systemClock, weekStart = 0 } = options;
+        this.timeZone = timeZone;
+        this.clock = clock;
+        this.weekStart = weekStart;
+    }
+
+    today() {
+        return LocalDate.todayInTz(this.timeZone, this.clock);
+    }
+    yesterday() {
+        return this.today().minusDays(1);
+    }
+    tomorrow() {
+        return this.today().plusDays(1);
+    }
+
+    thisWeek() {
+        return this.today().toLocalWeek(this.weekStart);
+    }
+    lastWeek() {
+        return this.thisWeek().minusWeeks(1);
+    }
+
+    thisMonth() {
+        return this.today().toLocalMonth();
+    }
+    lastMonth() {
+        return this.thisMonth().minusMonths(1);
+    }
+
+    thisQuarter() {
+        return this.today().toQuarter();
+    }
+    lastQuarter() {
+        return this.thisQuarter().minusQuarters(1);
+    }
+
+    /**
+     * Get the weeks before this one, oldest first. Throws a `RangeError` if
+     * the count isn't a whole number of zero or more.
+     */
+    lastCompleteWeeks(count: number) {
+        const thisWeek = this.thisWeek();
+        return countBack(count).map((weeks) => thisWeek.minusWeeks(weeks));
+    }
+
+    /**
+     * Get the months before this one, oldest first, like the last three
+     * complete months for a quarterly report. Throws a `RangeError` if the
+     * count isn't a whole number of zero or more.
+     */
+    lastCompleteMonths(count: number) {
+        const thisMonth = this.thisMonth();
+        return countBack(count).map((months) => thisMonth.minusMonths(months));
+    }
+
+    /**
+     * Get the quarters before this one, oldest first. Throws a `RangeError`
+     * if the count isn't a whole number of zero or more.
+     */
+    lastCompleteQuarters(count: number) {
+        const thisQuarter = this.thisQuarter();
+        return countBack(count).map((quarters) =>
+            thisQuarter.minusQuarters(quarters)
+        );
+    }
+}
+
+/** Count down from `count` to 1, for listing periods oldest first */
+const countBack = (count: number) => {
+    if (!isWholeNumberInRange(count, 0, Infinity)) {
+        throw new RangeError(`Can't count back ${count} periods`);
+    }
+    return range(count).map((i) => count - i);
+};
+
+/** A problem found by a {@link Decoder}, at a path like `$.items[2].start` */
+export interface DecodeIssue {
+    path: string;
+    message: string;
+}
+
+export class DecodeError extends Error {
+    readonly issues: DecodeIssue[];
+
+    constructor(issues: DecodeIssue[]) {
+        super(
+            `Invalid value: ${issues
+                .map(({ path, message }) => `${path} ${message}`)
+                .join("; ")}`
+        );
+        this.issues = issues;
+    }
+}
+
+/**
+ * Checks an unknown value, like part of a request body or query string, and
+ * returns it as a typed value. Throws a {@link DecodeError} listing every
+ * problem by its path, which starts at `$` unless one is given.
+ */
+export type Decoder<T> = (value: unknown, path?: string) => T;
+
+const describeValue = (value: unknown) =>
+    value === null ? "null" : Array.isArray(value) ? "an array" : typeof value;
+
+/**
+ * Decode instances of a class as they are, and strings with a parser.
+ * Errors from the parser become the issue's message.
+ */
+const stringDecoder =
+    <T>(
+        expected: string,
+        type: new (...args: any[]) => T,
+        parse: (input: string) => T
+    ): Decoder<T> =>
+    (value, path = "$") => {
+        if (value instanceof type) {
+            return value;
+        }
+        if (typeof value !== "string") {
+            throw new DecodeError([
+                {
+                    path,
+                    message: `should be ${expected}, not ${describeValue(value)}`,
+                },
+            ]);
+        }
+        try {
+            return parse(value);
+        } catch (error) {
+            if (!(error instanceof Error)) throw error;
+            throw new DecodeError([{ path, message: error.message }]);
+        }
+    };
+
+/** Parse a month strictly, unlike {@link LocalMonth.fromString} */
+const parseMonth = (input: string) => {
+    const match = /^([+-]?\d{4,})-(\d{2})$/.exec(input);
+    if (!match) {
+        throw new DateFormatError(input, {
+            reason: 'expected a month like "2024-01"',
+        });
+    }
+    const month = parseInt(match[2], 10);
+    if (month < 1 || month > 12) {
+        throw new DateFormatError(input, {
+            position: match[1].length + 1,
+            field: "month",
+            reason: `month ${month} is out of range`,
+        });
+    }
+    return new LocalMonth(parseInt(match[1], 10), month);
+};
+
+/** Decode a date in any format {@link LocalDate.parse} reads by default */
+export const decodeLocalDate = stringDecoder(
+    "a date string",
+    LocalDate,
+    (input) => LocalDate.parse(input)
+);
+
+/** Decode a week in either format {@link LocalWeek.fromString} reads */
+export const decodeLocalWeek = stringDecoder(
+    "a week string",
+    LocalWeek,
+    LocalWeek.fromString
+);
+
+/** Decode a month like `2024-01` */
+export const decodeLocalMonth = stringDecoder(
+    "a month string",
+    LocalMonth,
+    parseMonth
+);
+
+/** Decode a quarter like `Q1 2024` or `2024-Q1` */
+export const decodeQuarter = stringDecoder(
+    "a quarter string",
+    Quarter,
+    Quarter.fromString
+);
+
+/** Decode a range of two strict dates joined by `--` */
+export const decodeLocalDateRange = stringDecoder(
+    "a date range string",
+    LocalDateRange,
+    (input) => {
+        const parts = input.split("--");
+        if (parts.length !== 2) {
+            throw new DateFormatError(input, {
+                reason: 'expected two dates joined by "--"',
+            });
+        }
+        return new LocalDateRange(
+            LocalDate.parse(parts[0]),
+            LocalDate.parse(parts[1])
+        );
+    }
+);
+
+const decodeYearString = stringDecoder(
+    "a year",
+    LocalYear,
+    LocalYear.fromString
+);
+
+/** Decode a year from a whole number, as it's serialized, or a string */
+export const decodeLocalYear: Decoder<LocalYear> = (value, path = "$") => {
+    if (typeof value !== "number") {
+        return decodeYearString(value, path);
+    }
+    if (!Number.isInteger(value)) {
+        throw new DecodeError([
+            { path, message: `should be a whole year, not ${value}` },
+        ]);
+    }
+    return new LocalYear(value);
+};
+
+/** Allow a value to be missing or `null`, decoding it as `undefined` */
+export const decodeOptional =
+    <T>(decoder: Decoder<T>): Decoder<T | undefined> =>
+    (value, path) =>
+        value === undefined || value === null
+            ? undefined
+            : decoder(value, path);
+
+/**
+ * Decode each part of a value, throwing one {@link DecodeError} with the
+ * issues from every part that failed.
+ */
+const decodeParts = (decodeEach: (decode: <T>(run: () => T) => T) => void) => {
+    const issues: DecodeIssue[] = [];
+    decodeEach((run) => {
+        try {
+            return run();
+        } catch (error) {
+            if (!(error instanceof DecodeError)) throw error;
+            issues.push(...error.issues);
+            return undefined as never;
+        }
+    });
+    if (issues.length) {
+        throw new DecodeError(issues);
+    }
+};
+
+/** Decode an array where every item matches a decoder */
+export const decodeArray =
+    <T>(decoder: Decoder<T>): Decoder<T[]> =>
+    (value, path = "$") => {
+        if (!Array.isArray(value)) {
+            throw new DecodeError([
+                {
+                    path,
+                    message: `should be an array, not ${describeValue(value)}`,
+                },
+            ]);
+        }
+        const result: T[] = [];
+        decodeParts((decode) =>
+            value.forEach((item, i) => {
+                result[i] = decode(() => decoder(item, `${path}[${i}]`));
+            })
+        );
+        return result;
+    };
+
+/**
+ * Decode an object with a decoder for each field, like
+ * `decodeObject({ from: decodeLocalDate, to: decodeLocalDate })`. Fields
+ * without a decoder are dropped.
+ */
+export const decodeObject =
+    <T>(fields: { [K in keyof T]: Decoder<T[K]> }): Decoder<T> =>
+    (value, path = "$") => {
+        if (
+            typeof value !== "object" ||
+            value === null ||
+            Array.isArray(value)
+        ) {
+            throw new DecodeError([
+                {
+                    path,
+                    message: `should be an object, not ${describeValue(value)}`,
+                },
+            ]);
+        }
+        const object = value as { [key: string]: unknown };
+        const result = {} as T;
+        decodeParts((decode) => {
+            for (const key of Object.keys(fields) as (keyof T & string)[]) {
+                result[key] = decode(() =>
+                    fields[key](object[key], `${path}.${key}`)
+                );
+            }
+        });
+        return result;
+    };
+
+/**
+ * Get a `JSON.parse` reviver that decodes the values of the named keys,
+ * wherever they are in the document, like
+ * `JSON.parse(body, createReviver({ due: decodeLocalDate }))`. Keys name
+ * the types because serialized periods alone are ambiguous: `"2024"` could
+ * be a year or just a string. A reviver only sees the key, not where it sits
+ * in the document, so problems are reported at a path like `$..due`.
+ */
+export const createReviver =
+    (fields: { [key: string]: Decoder<unknown> }) =>
+    (key: string, value: unknown) =>
+        Object.prototype.hasOwnProperty.call(fields, key)
+            ? fields[key](value, `$..${key}`)
+            : value;
+
+/**
+ * Combines items into one value per bucket, like a count or a sum. Empty
+ * buckets get the `initial` value.
+ */
+export interface Reducer<T, V> {
+    initial(): V;
+    add(total: V, item: T): V;
+}
+
+/** Count the items in each bucket */
+export const countItems = <T>(): Reducer<T, number> => ({
+    initial: () => 0,
+    add: (count) => count + 1,
+});
+
+/** Add up a number from each item in each bucket */
+export const sumBy = <T>(value: (item: T) => number): Reducer<T, number> => ({
+    initial: () => 0,
+    add: (total, item) => total + value(item),
+});
+
+const collectItems = <T>(): Reducer<T, T[]> => ({
+    initial: () => [],
+    add: (items, item) => {
+        items.push(item);
+        return items;
+    },
+});
+
+export interface Bucket<P extends LocalDatePeriod, V> {
+    period: P;
+    value: V;
+}
+
+export interface BucketOptions {
+    /**
+     * The days to cover, with a bucket for every period that touches them.
+     * Items outside it are left out. Defaults to the days from the first
+     * item to the last.
+     */
+    within?: LocalDatePeriod;
+    weekStart?: Weekday;
+}
+
+/**
+ * An ordered series of periods with a value for each, like daily sales or
+ * signups per week, without gaps between the periods.
+ */
+export class TimeSeries<P extends LocalDatePeriod, V> implements Iterable<
+    Bucket<P, V>
+> {
+    readonly buckets: Bucket<P, V>[];
+
+    constructor(buckets: Bucket<P, V>[]) {
+        this.buckets = buckets;
+    }
+
+    [Symbol.iterator]() {
+        return this.buckets[Symbol.iterator]();
+    }
+
+    get length() {
+        return this.buckets.length;
+    }
+
+    /** Group items and combine each group with a reducer */
+    static bucket<T, U extends PeriodUnit, V>(
+        items: Iterable<T>,
+        key: (item: T) => LocalDate,
+        unit: U,
+        options: BucketOptions & { reduce: Reducer<T, V> }
+    ): TimeSeries<PeriodUnits[U], V>;
+
+    /**
+     * Group items by the day, week, month, quarter or year of their date,
+     * with an empty bucket for every period that has no items. Without a
+     * reducer, each bucket holds its items in their original order.
+     */
+    static bucket<T, U extends PeriodUnit>(
+        items: Iterable<T>,
+        key: (item: T) => LocalDate,
+        unit: U,
+        options?: BucketOptions
+    ): TimeSeries<PeriodUnits[U], T[]>;
+
+    static bucket<T, U extends PeriodUnit, V>(
+        items: Iterable<T>,
+        key: (item: T) => LocalDate,
+        unit: U,
+        options: BucketOptions & { reduce?: Reducer<T, V | T[]> } = {}
+    ) {
+        const { weekStart = 0, reduce = collectItems<T>() } = options;
+        const dated = Array.from(items, (item) => ({ item, date: key(item) }));
+        const dates = dated.map(({ date }) => date);
+        const within =
+            options.within ||
+            (dates.length
+                ? new LocalDateRange(
+                      dates.reduce(earlierOf),
+                      dates.reduce(laterOf)
+                  )
+                : undefined);
+        if (!within) {
+            return new TimeSeries<PeriodUnits[U], V | T[]>([]);
+        }
+        const range = LocalDateRange.fromPeriod(within);
+        const buckets = periodsCovering(range, unit, weekStart).map(
+            (period) => ({ period, value: reduce.initial() })
+        );
+        const indexes = new Map(
+            buckets.map(({ period }, i): [number, number] => [
+                period.valueOf(),
+                i,
+            ])
+        );
+        for (const { item, date } of dated) {
+            const index = range.contains(date)
+                ? indexes.get(periodOf(date, unit, weekStart).valueOf())
+                : undefined;
+            if (index === undefined) continue;
+            buckets[index].value = reduce.add(buckets[index].value, item);
+        }
+        return new TimeSeries(buckets);
+    }
+
+    /**
+     * Group the buckets into coarser periods, like days into months, and
+     * combine their values with a reducer. A bucket that spans two of the
+     * new periods, like a week across a month end, counts towards the one
+     * it starts in.
+     */
+    rebucket<U extends PeriodUnit, W>(
+        unit: U,
+        reduce: Reducer<V, W>,
+        options: { weekStart?: Weekday } = {}
+    ): TimeSeries<PeriodUnits[U], W> {
+        if (!this.buckets.length) {
+            return new TimeSeries([]);
+        }
+        return TimeSeries.bucket(
+            this.buckets,
+            (bucket) => bucket.period.start,
+            unit,
+            {
+                within: new LocalDateRange(
+                    this.buckets[0].period.start,
+                    this.buckets[this.buckets.length - 1].period.end
+                ),
+                weekStart: options.weekStart,
+                reduce: {
+                    initial: reduce.initial,
+                    add: (total, bucket) => reduce.add(total, bucket.value),
+                },
+            }
+        );
+    }
+
+    /** Get the periods and values as `[period, value]` pairs */
+    toEntries(): [P, V][] {
+        return this.buckets.map(({ period, value }): [P, V] => [period, value]);
+    }
+}
+
+/** One period's share of an amount split with {@link allocate} */
+export interface Allocation<P extends LocalDatePeriod> {
+    period: P;
+    /** The days this period shares with the allocated period, if any */
+    overlap?: LocalDateRange;
+    /** The days of the overlap that count, only business days with a calendar */
+    days: number;
+    /**
+     * The share in minor units, like cents with `decimals: 2`. These always
+     * add up to the amount exactly.
+     */
+    units: number;
+    /** The share as `units` divided by `10 ** decimals` */
+    amount: number;
+}
+
+export interface AllocationOptions {
+    /** Weigh periods by their business days instead of all their days */
+    calendar?: BusinessCalendar;
+    /**
+     * The decimal places of the amount and each share. Defaults to 0, for
+     * whole amounts like cents. With decimals, the shares' `amount`s are
+     * floats that may not add up exactly, but their `units` always do.
+     */
+    decimals?: number;
+    weekStart?: Weekday;
+}
+
+/**
+ * Split an amount across the months, quarters, weeks or other units that a
+ * period touches, in proportion to the days each one shares with it.
+ */
+export function allocate<U extends PeriodUnit>(
+    period: LocalDatePeriod,
+    amount: number,
+    unit: U,
+    options?: AllocationOptions
+): Allocation<PeriodUnits[U]>[];
+
+/**
+ * Split an amount across any list of periods, in proportion to the days
+ * each one shares with the allocated period. Days outside all of the
+ * periods get none of the amount, and days in two periods count for both.
+ */
+export function allocate<P extends LocalDatePeriod>(
+    period: LocalDatePeriod,
+    amount: number,
+    periods: P[],
+    options?: AllocationOptions
+): Allocation<P>[];
+
+/**
+ * Shares are rounded with the largest remainder method, so their units
+ * always add up to the amount's units exactly. Throws a `RangeError` if the
+ * amount has more decimal places than `decimals`, if it's too large to split
+ * exactly, or if no days count towards any of the periods.
+ */
+export function allocate(
+    period: LocalDatePeriod,
+    amount: number,
+    targets: PeriodUnit | LocalDatePeriod[],
+    options: AllocationOptions = {}
+) {
+    const { calendar, decimals = 0, weekStart = 0 } = options;
+    if (!isWholeNumberInRange(decimals, 0, 15)) {
+        throw new RangeError(`Can't round to ${decimals} decimal places`);
+    }
+    const scale = Math.pow(10, decimals);
+    const units = Math.round(amount * scale);
+    if (!Number.isSafeInteger(units)) {
+        throw new RangeError(`Can't allocate ${amount} in whole minor units`);
+    }
+    // exact, since dividing whole numbers gives the nearest float
+    if (units / scale !== amount) {
+        throw new RangeError(
+            `${amount} has more than ${decimals} decimal places`
+        );
+    }
+    const range = LocalDateRange.fromPeriod(period);
+    const periods: LocalDatePeriod[] =
+        typeof targets === "string"
+            ? periodsCovering(range, targets, weekStart)
+            : targets;
+    const parts = periods.map((target) => {
+        const overlap = range.intersection(target);
+        const days = !overlap
+            ? 0
+            : calendar
+              ? calendar.businessDaysIn(overlap)
+              : overlap.numberOfDays();
+        return { period: target, overlap, days };
+    });
+    const shares = splitByWeights(
+        units,
+        parts.map(({ days }) => days)
+    );
+    return parts.map((part, i) => ({
+        ...part,
+        units: shares[i],
+        amount: shares[i] / scale,
+    }));
+}
+
+/**
+ * Split a whole number into whole shares proportional to the weights,
+ * giving what's left after rounding down to the largest remainders.
+ */
+const splitByWeights = (total: number, weights: number[]) => {
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight === 0) {
+        throw new RangeError("There are no days to allocate the amount to");
+    }
+    // every share is computed from total * weight, which must stay exact
+    if (!Number.isSafeInteger(total * totalWeight)) {
+        throw new RangeError(`${total} is too large to split exactly`);
+    }
+    const shares = weights.map((weight) => {
+        const remainder = positiveModulo(total * weight, totalWeight);
+        return { whole: (total * weight - remainder) / totalWeight, remainder };
+    });
+    const left = total - shares.reduce((sum, { whole }) => sum + whole, 0);
+    const largest = range(shares.length)
+        .sort((a, b) => shares[b].remainder - shares[a].remainder || a - b)
+        .slice(0, left);
+    for (const i of largest) {
+        shares[i].whole++;
+    }
+    return shares.map(({ whole }) => whole);
+};
+
+export interface CalendarCell {
+    date: LocalDate;
+    /** Whether the date is in the month the grid is for, not padding */
+    inMonth: boolean;
+    isToday: boolean;
+    isWeekend: boolean;
+    /** Whether the date is before `min` or after `max` */
+    isDisabled: boolean;
+}
+
+export interface CalendarRow {
+    week: LocalWeek;
+    cells: CalendarCell[];
+}
+
+export interface CalendarMonth {
+    month: LocalMonth;
+    rows: CalendarRow[];
+}
+
+export interface WeekdayLabel {
+    weekday: Weekday;
+    label: string;
+}
+
+/** Everything a UI needs to render one or more months as grids of weeks */
+export interface CalendarGrid {
+    /** The column headers, in the order of the grid's columns */
+    weekdays: WeekdayLabel[];
+    months: CalendarMonth[];
+}
+
+export interface CalendarGridOptions {
+    /** Defaults to Monday */
+    weekStart?: Weekday;
+    /** Pad every month to six rows, so the grid never changes height */
+    fixedRows?: boolean;
+    today?: LocalDate;
+    min?: LocalDate;
+    max?: LocalDate;
+    /** Defaults to Saturday and Sunday */
+    weekend?: Weekday[];
+    /** The locale for the weekday labels */
+    locale?: string | string[];
+    /** Defaults to short labels, like "Mon" */
+    weekdayFormat?: "long" | "short" | "narrow";
+}
+
+/**
+ * Lay out every month that a period touches, like a `LocalMonth` or a
+ * `LocalYear`, as rows of weeks with flagged cells. Throws an
+ * {@link InvalidRangeError} if `max` is before `min`.
+ */
+export const calendarGrid = (
+    period: LocalDatePeriod,
+    options: CalendarGridOptions = {}
+): CalendarGrid => {
+    const {
+        weekStart = 0,
+        fixedRows = false,
+        today,
+        min,
+        max,
+        weekend = [5, 6],
+        locale,
+        weekdayFormat = "short",
+    } = options;
+    if (min && max && max.isBefore(min)) {
+        throw new InvalidRangeError(min, max);
+    }
+    const weekdays = range(7).map((i) => {
+        const weekday = ((weekStart + i) % 7) as Weekday;
+        // 2024-01-01 is a Monday, so this is a date with the right weekday
+        const date = new LocalDate(2024, 1, 1 + weekday);
+        return {
+            weekday,
+            label: formatLocale(date, locale, { weekday: weekdayFormat }),
+        };
+    });
+    const months = periodsCovering(period, "month").map((month) => {
+        const weeks = month.toWeeks(weekStart);
+        while (fixedRows && weeks.length < 6) {
+            weeks.push(weeks[weeks.length - 1].plusWeeks(1));
+        }
+        const rows = weeks.map((week) => ({
+            week,
+            cells: week.toDays().map((date) => ({
+                date,
+                inMonth: date.year === month.year && date.month === month.month,
+                isToday: !!today && date.equals(today),
+                isWeekend: weekend.includes(date.weekday as Weekday),
+                isDisabled:
+                    (!!min && date.isBefore(min)) ||
+                    (!!max && date.isAfter(max)),
+            })),
+        }));
+        return { month, rows };
+    });
+    return { weekdays, months };
+};
+
+/** What {@link parseRelativeDate} can resolve an expression to */
+export type RelativeDate =
+    LocalDate | LocalWeek | LocalMonth | Quarter | LocalYear;
+
+const WEEKDAY_NAMES = [
+    "monday",
+    "tuesday",
+    "wednesday",
+    "thursday",
+    "friday",
+    "saturday",
+    "sunday",
+];
+const NUMBER_WORDS = [
+    "zero",
+    "one",
+    "two",
+    "three",
+    "four",
+    "five",
+    "six",
+    "seven",
+    "eight",
+    "nine",
+    "ten",
+];
+const RELATIVE_UNITS: PeriodUnit[] = [
+    "day",
+    "week",
+    "month",
+    "quarter",
+    "year",
+];
+const PERIOD_SHIFTS = new Map([
+    ["this", 0],
+    ["last", -1],
+    ["previous", -1],
+    ["next", 1],
+]);
+
+interface RelativeWord {
+    text: string;
+    position: number;
+}
+
+/**
+ * Resolve an expression like "3 weeks ago", "last monday", "start of last
+ * quarter", "end of month", "next business day" or "last business day of
+ * month" against a reference date.
+ *
+ * Dates come back as a `LocalDate`, and "this", "last" and "next" with a
+ * week, month, quarter or year as that period, like a `LocalMonth` for
+ * "last month". "last friday" is the latest Friday before the reference
+ * date, "next friday" is the first one after it, and "this friday" is the
+ * one in the reference date's week. Expressions are case-insensitive, and
+ * anything ambiguous or unsupported, like a bare "friday", throws a
+ * {@link DateFormatError} pointing at the problem.
+ */
+export const parseRelativeDate = (
+    expression: string,
+    reference: LocalDate,
+    options: { weekStart?: Weekday; calendar?: BusinessCalendar } = {}
+): RelativeDate => {
+    const { weekStart = 0, calendar = new BusinessCalendar() } = options;
+    const words: RelativeWord[] = [];
+    const wordPattern = /\S+/g;
+    let match: RegExpExecArray | null;
+    while ((match = wordPattern.exec(expression))) {
+        words.push({ text: match[0].toLowerCase(), position: match.index });
+    }
+    const fail = (reason: string, word?: RelativeWord) =>
+        new DateFormatError(expression, {
+            position: word && word.position,
+            reason,
+        });
+    const texts = words.map(({ text }) => text);
+
+    const unitOf = (word: RelativeWord | undefined) => {
+        if (!word) throw fail('expected a unit like "week" or "months"');
+        const unit = RELATIVE_UNITS.find(
+            (unit) => word.text === unit || word.text === `${unit}s`
+        );
+        if (!unit) throw fail(`unknown unit "${word.text}"`, word);
+        return unit;
+    };
+
+    /** Resolve "this month", "last quarter" or, after "start of", "week" */
+    const periodOfWords = (period: RelativeWord[], allowBare: boolean) => {
+        const [first, second] = period;
+        const bare = period.length === 1 && allowBare;
+        const shift = bare
+            ? 0
+            : period.length === 2
+              ? PERIOD_SHIFTS.get(first.text)
+              : undefined;
+        if (shift === undefined) {
+            throw fail(
+                'expected a period like "last month" or "this quarter"',
+                first
+            );
+        }
+        const word = bare ? first : second;
+        const unit = unitOf(word);
+        if (unit === "day") {
+            throw fail(
+                'use "yesterday", "today" or "tomorrow" for single days',
+                word
+            );
+        }
+        const current = periodOf(reference, unit, weekStart);
+        if (shift < 0) {
+            return periodOf(current.start.minusDays(1), unit, weekStart);
+        }
+        if (shift > 0) {
+            return periodOf(current.end.plusDays(1), unit, weekStart);
+        }
+        return current;
+    };
+
+    /** Resolve "3 weeks", "a month" or "2 business days" */
+    const dateAfter = (amount: RelativeWord[], sign: number) => {
+        const [count, ...rest] = amount;
+        if (!count) throw fail('expected an amount like "3 days"');
+        const number = /^\d+$/.test(count.text)
+            ? parseInt(count.text, 10)
+            : count.text === "a" || count.text === "an"
+              ? 1
+              : NUMBER_WORDS.indexOf(count.text);
+        if (number < 0) {
+            throw fail(`expected a number, not "${count.text}"`, count);
+        }
+        if (rest.length === 2 && rest[0].text === "business") {
+            if (!/^days?$/.test(rest[1].text)) {
+                throw fail('expected "business days"', rest[1]);
+            }
+            return calendar.plusBusinessDays(reference, sign * number);
+        }
+        if (rest.length !== 1) {
+            throw fail('expected an amount like "3 days"', rest[1] || count);
+        }
+        const unit = unitOf(rest[0]);
+        if (unit === "day") return reference.plusDays(sign * number);
+        if (unit === "week") return reference.plusWeeks(sign * number);
+        const months = unit === "year" ? 12 : unit === "quarter" ? 3 : 1;
+        return reference.plusMonths(sign * number * months);
+    };
+
+    if (!words.length) {
+        throw fail('expected a relative date like "last monday"');
+    }
+    const phrases: { [phrase: string]: () => LocalDate } = {
+        today: () => reference,
+        yesterday: () => reference.minusDays(1),
+        tomorrow: () => reference.plusDays(1),
+        "next business day": () => calendar.nextBusinessDay(reference),
+        "previous business day": () => calendar.previousBusinessDay(reference),
+    };
+    const phrase = texts.join(" ");
+    if (Object.prototype.hasOwnProperty.call(phrases, phrase)) {
+        return phrases[phrase]();
+    }
+    if (phrase === "last business day") {
+        throw fail(
+            '"last business day" is ambiguous, say "previous business day" or "last business day of month"',
+            words[0]
+        );
+    }
+    if (
+        (texts[0] === "first" || texts[0] === "last") &&
+        texts.slice(1, 4).join(" ") === "business day of"
+    ) {
+        const period = periodOfWords(words.slice(4), true);
+        const businessDays = calendar.listBusinessDays(period);
+        if (!businessDays.length) {
+            throw fail(`there are no business days in ${period}`, words[4]);
+        }
+        return texts[0] === "first"
+            ? businessDays[0]
+            : businessDays[businessDays.length - 1];
+    }
+    if (texts[0] === "start" || texts[0] === "end") {
+        if (texts[1] !== "of") {
+            throw fail('expected "of"', words[1] || words[0]);
+        }
+        const period = periodOfWords(words.slice(2), true);
+        return texts[0] === "start" ? period.start : period.end;
+    }
+    if (texts[0] === "in") {
+        return dateAfter(words.slice(1), 1);
+    }
+    if (texts[texts.length - 1] === "ago") {
+        return dateAfter(words.slice(0, -1), -1);
+    }
+    const weekdayOf = (word: RelativeWord) =>
+        WEEKDAY_NAMES.findIndex(
+            (name) => word.text === name || word.text === name.slice(0, 3)
+        );
+    const weekday = weekdayOf(words[words.length - 1]);
+    if (weekday >= 0 && words.length === 1) {
+        const name = WEEKDAY_NAMES[weekday];
+        throw fail(
+            `"${words[0].text}" is ambiguous, say "last ${name}", "this ${name}" or "next ${name}"`,
+            words[0]
+        );
+    }
+    if (weekday >= 0 && words.length === 2) {
+        const days = reference.weekday;
+        switch (texts[0]) {
+            case "last":
+            case "previous":
+                return reference.minusDays(
+                    positiveModulo(days - weekday - 1, 7) + 1
+                );
+            case "next":
+                return reference.plusDays(
+                    positiveModulo(weekday - days - 1, 7) + 1
+                );
+            case "this":
+                return reference
+                    .toLocalWeek(weekStart)
+                    .first.plusDays(positiveModulo(weekday - weekStart, 7));
+        }
+    }
+    return periodOfWords(words, false);
+};
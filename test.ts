@@ -1,4 +1,47 @@
-import { LocalDate, LocalWeek, LocalMonth, Quarter } from "./index";
+import {
+    allocate,
+    BusinessCalendar,
+    calendarGrid,
+    Comparable,
+    countItems,
+    createReviver,
+    DateFormatError,
+    DateOverflowError,
+    DecodeError,
+    decodeArray,
+    decodeLocalDate,
+    decodeLocalDateRange,
+    decodeLocalMonth,
+    decodeLocalWeek,
+    decodeLocalYear,
+    decodeObject,
+    decodeOptional,
+    decodeQuarter,
+    FiscalCalendar,
+    FixedClock,
+    HolidayRule,
+    HolidaySchedule,
+    Inclusivity,
+    InvalidRangeError,
+    LocalDateMap,
+    LocalDateRange,
+    LocalDateSet,
+    LocalDate,
+    LocalWeek,
+    LocalMonth,
+    Quarter,
+    LocalYear,
+    OffsetClock,
+    parseRelativeDate,
+    RecurrenceRule,
+    RecurrenceRuleError,
+    RelativePeriods,
+    RetailCalendar,
+    sumBy,
+    TimeSeries,
+    UK_BANK_HOLIDAYS,
+    US_FEDERAL_HOLIDAYS,
+} from "./index";
 
 // I don't know how to test LocalDate.fromDateInTz.
 // If you figure out how to correctly mock date.protoType.toLocaleDateString()
@@ -26,6 +69,22 @@ describe("LocalDate", () => {
         expect(date.day).toEqual(30);
     });
 
+    it("should roll over months like js dates", () => {
+        expect(new LocalDate(2019, 14, 1)).toEqual(new LocalDate(2020, 2, 1));
+        expect(new LocalDate(2019, 0, 31)).toEqual(new LocalDate(2018, 12, 31));
+        expect(new LocalDate(2019, 2, 29)).toEqual(new LocalDate(2019, 3, 1));
+    });
+
+    it("should count days since the epoch", () => {
+        expect(new LocalDate(1970, 1, 1).toEpochDay()).toEqual(0);
+        expect(new LocalDate(1969, 12, 31).toEpochDay()).toEqual(-1);
+        expect(new LocalDate(2000, 3, 1).toEpochDay()).toEqual(11017);
+        expect(LocalDate.fromEpochDay(11017)).toEqual(
+            new LocalDate(2000, 3, 1)
+        );
+        expect(LocalDate.fromEpochDay(-719468)).toEqual(new LocalDate(0, 3, 1));
+    });
+
     describe("weekday", () => {
         it("should treat monday as the 0th", () => {
             const monday = new LocalDate(2019, 8, 19);
@@ -58,6 +117,139 @@ describe("LocalDate", () => {
         expect(date.day).toEqual(29);
     });
 
+    describe("plusMonths", () => {
+        it("should keep the day of the month", () => {
+            expect(new LocalDate(2019, 11, 15).plusMonths(3)).toEqual(
+                new LocalDate(2020, 2, 15)
+            );
+            expect(new LocalDate(2019, 3, 15).minusMonths(4)).toEqual(
+                new LocalDate(2018, 11, 15)
+            );
+        });
+
+        it("should clamp to the end of the month by default", () => {
+            expect(new LocalDate(2020, 1, 31).plusMonths(1)).toEqual(
+                new LocalDate(2020, 2, 29)
+            );
+            expect(new LocalDate(2019, 1, 31).plusMonths(1)).toEqual(
+                new LocalDate(2019, 2, 28)
+            );
+        });
+
+        it("should roll over when asked", () => {
+            expect(
+                new LocalDate(2019, 1, 31).plusMonths(1, "rollover")
+            ).toEqual(new LocalDate(2019, 3, 3));
+        });
+
+        it("should throw when asked", () => {
+            expect(() =>
+                new LocalDate(2019, 1, 31).plusMonths(1, "throw")
+            ).toThrow(DateOverflowError);
+            expect(new LocalDate(2019, 1, 28).plusMonths(1, "throw")).toEqual(
+                new LocalDate(2019, 2, 28)
+            );
+        });
+    });
+
+    it("should add years from a leap day", () => {
+        const leapDay = new LocalDate(2020, 2, 29);
+        expect(leapDay.plusYears(1)).toEqual(new LocalDate(2021, 2, 28));
+        expect(leapDay.plusYears(4)).toEqual(new LocalDate(2024, 2, 29));
+        expect(leapDay.minusYears(1, "rollover")).toEqual(
+            new LocalDate(2019, 3, 1)
+        );
+    });
+
+    it("should add quarters and weeks", () => {
+        const date = new LocalDate(2019, 11, 30);
+        expect(date.plusQuarters(1)).toEqual(new LocalDate(2020, 2, 29));
+        expect(date.minusQuarters(1)).toEqual(new LocalDate(2019, 8, 30));
+        expect(date.plusWeeks(2)).toEqual(new LocalDate(2019, 12, 14));
+        expect(date.minusWeeks(1)).toEqual(new LocalDate(2019, 11, 23));
+    });
+
+    it("should add durations", () => {
+        const date = new LocalDate(2019, 1, 31);
+        expect(date.plus({ months: 1, days: 1 })).toEqual(
+            new LocalDate(2019, 3, 1)
+        );
+        expect(date.plus({ years: 1, months: 1, weeks: 1 })).toEqual(
+            new LocalDate(2020, 3, 7)
+        );
+        expect(date.minus({ years: 1, days: 31 })).toEqual(
+            new LocalDate(2017, 12, 31)
+        );
+    });
+
+    describe("until", () => {
+        it("should count days across leap years", () => {
+            const date = new LocalDate(2019, 1, 1);
+            expect(date.daysUntil(new LocalDate(2020, 1, 1))).toEqual(365);
+            expect(date.daysUntil(new LocalDate(2021, 1, 1))).toEqual(731);
+            expect(new LocalDate(2021, 1, 1).daysUntil(date)).toEqual(-731);
+        });
+
+        it("should count days across DST changes", () => {
+            const date = new LocalDate(2019, 3, 1);
+            expect(date.daysUntil(new LocalDate(2019, 4, 1))).toEqual(31);
+            expect(date.daysUntil(new LocalDate(2019, 11, 30))).toEqual(274);
+        });
+
+        it("should count whole weeks", () => {
+            const date = new LocalDate(2019, 8, 1);
+            expect(date.weeksUntil(new LocalDate(2019, 8, 14))).toEqual(1);
+            expect(date.weeksUntil(new LocalDate(2019, 8, 15))).toEqual(2);
+            expect(date.weeksUntil(new LocalDate(2019, 7, 19))).toEqual(-1);
+            expect(
+                Object.is(date.weeksUntil(new LocalDate(2019, 7, 30)), 0)
+            ).toBe(true);
+        });
+
+        it("should count whole months", () => {
+            const date = new LocalDate(2020, 1, 31);
+            expect(date.monthsUntil(new LocalDate(2020, 2, 29))).toEqual(0);
+            expect(date.monthsUntil(new LocalDate(2020, 3, 31))).toEqual(2);
+            expect(date.monthsUntil(new LocalDate(2019, 12, 31))).toEqual(-1);
+            expect(date.monthsUntil(new LocalDate(2019, 12, 30))).toEqual(-1);
+            expect(
+                new LocalDate(2020, 1, 15).monthsUntil(
+                    new LocalDate(2019, 12, 16)
+                )
+            ).toEqual(0);
+        });
+
+        it("should count whole years", () => {
+            const leapDay = new LocalDate(2020, 2, 29);
+            expect(leapDay.yearsUntil(new LocalDate(2021, 2, 28))).toEqual(0);
+            expect(leapDay.yearsUntil(new LocalDate(2021, 3, 1))).toEqual(1);
+            expect(leapDay.yearsUntil(new LocalDate(2016, 2, 29))).toEqual(-4);
+            expect(
+                Object.is(leapDay.yearsUntil(new LocalDate(2019, 3, 1)), 0)
+            ).toBe(true);
+        });
+
+        it("should break down into years, months and days", () => {
+            const start = new LocalDate(2019, 1, 31);
+            const end = new LocalDate(2020, 3, 15);
+            expect(start.until(end)).toEqual({ years: 1, months: 1, days: 15 });
+            expect(start.plus(start.until(end))).toEqual(end);
+            expect(end.until(start)).toEqual({
+                years: -1,
+                months: -1,
+                days: -15,
+            });
+            const backward = new LocalDate(2024, 3, 31).until(
+                new LocalDate(2024, 2, 28)
+            );
+            expect(backward).toEqual({ years: 0, months: -1, days: -1 });
+            expect(Object.is(backward.years, 0)).toBe(true);
+            expect(
+                new LocalDate(2024, 3, 31).until(new LocalDate(2023, 3, 30))
+            ).toEqual({ years: -1, months: 0, days: -1 });
+        });
+    });
+
     describe("range", () => {
         test("should go small to large", () => {
             const start = new LocalDate(2020, 2, 25);
@@ -100,6 +292,82 @@ describe("LocalDate", () => {
         expect(date.day).toEqual(4);
     });
 
+    describe("parse", () => {
+        const error = (parse: () => unknown) => {
+            try {
+                parse();
+            } catch (e) {
+                return e as DateFormatError;
+            }
+            throw new Error("expected a DateFormatError");
+        };
+
+        it("should parse ISO dates", () => {
+            const date = new LocalDate(2024, 1, 31);
+            expect(LocalDate.parse("2024-01-31")).toEqual(date);
+            expect(LocalDate.parse("20240131")).toEqual(date);
+            expect(LocalDate.parse("+12024-01-31")).toEqual(
+                new LocalDate(12024, 1, 31)
+            );
+            expect(LocalDate.parse("-0044-03-15")).toEqual(
+                new LocalDate(-44, 3, 15)
+            );
+        });
+
+        it("should reject out-of-range fields", () => {
+            const e = error(() => LocalDate.parse("2024-02-31"));
+            expect(e).toBeInstanceOf(DateFormatError);
+            expect(e.input).toEqual("2024-02-31");
+            expect(e.field).toEqual("day");
+            expect(e.position).toEqual(8);
+            expect(error(() => LocalDate.parse("2024-13-01")).field).toEqual(
+                "month"
+            );
+            expect(LocalDate.parse("2024-02-29")).toEqual(
+                new LocalDate(2024, 2, 29)
+            );
+        });
+
+        it("should reject garbage", () => {
+            const e = error(() => LocalDate.parse("2024abc-1-1"));
+            expect(e.position).toEqual(4);
+            expect(e.field).toEqual("month");
+            expect(
+                error(() => LocalDate.parse("2024-01-311")).position
+            ).toEqual(10);
+            expect(
+                error(() => LocalDate.parse("12024-01-31")).position
+            ).toEqual(4);
+        });
+
+        it("should parse with patterns", () => {
+            const date = new LocalDate(2024, 3, 7);
+            expect(LocalDate.parse("07/03/2024", "dd/MM/yyyy")).toEqual(date);
+            expect(LocalDate.parse("03/07/2024", "MM/dd/yyyy")).toEqual(date);
+            expect(LocalDate.parse("3/7/2024", "M/d/yyyy")).toEqual(date);
+            expect(LocalDate.parse("20240307", "yyyyMMdd")).toEqual(date);
+            expect(LocalDate.parse("2024T0307", "yyyy'T'MMdd")).toEqual(date);
+            const e = error(() => LocalDate.parse("7/3/2024", "dd/MM/yyyy"));
+            expect(e.field).toEqual("day");
+            expect(e.position).toEqual(0);
+        });
+
+        it("should reject unsupported patterns", () => {
+            expect(error(() => LocalDate.parse("x", "dd/MM/yy")).field).toEqual(
+                "pattern"
+            );
+            expect(error(() => LocalDate.parse("x", "MM/yyyy")).field).toEqual(
+                "pattern"
+            );
+        });
+
+        it("should keep fromDateString lenient", () => {
+            expect(LocalDate.fromDateString("2024-02-31")).toEqual(
+                new LocalDate(2024, 3, 2)
+            );
+        });
+    });
+
     it("should convert from date correctly", () => {
         // months are zero-indexed in js!
         const date = LocalDate.fromDate(new Date(2021, 7, 18));
@@ -180,6 +448,83 @@ describe("LocalDate", () => {
         });
     });
 
+    describe("format", () => {
+        const date = new LocalDate(2024, 1, 5);
+
+        it("should format numbers", () => {
+            expect(date.format("yyyy-MM-dd")).toEqual("2024-01-05");
+            expect(date.format("d/M/yy")).toEqual("5/1/24");
+            expect(new LocalDate(987, 3, 1).format("yyyy y")).toEqual(
+                "0987 987"
+            );
+            expect(date.format("DDD Q")).toEqual("005 1");
+        });
+
+        it("should format names", () => {
+            expect(date.format("EEE, MMM d yyyy")).toEqual("Fri, Jan 5 2024");
+            expect(date.format("EEEE MMMM")).toEqual("Friday January");
+            expect(date.format("EEEE d MMMM", "fr")).toEqual(
+                "vendredi 5 janvier"
+            );
+        });
+
+        it("should format ISO weeks", () => {
+            expect(date.format("RRRR-'W'II-i")).toEqual("2024-W01-5");
+            expect(new LocalDate(2024, 12, 31).format("RRRR-'W'II")).toEqual(
+                "2025-W01"
+            );
+        });
+
+        it("should leave quoted text alone", () => {
+            expect(date.format("'Q'Q yyyy")).toEqual("Q1 2024");
+            expect(date.format("'it''s' d''")).toEqual("it's 5'");
+        });
+
+        it("should format with Intl in UTC", () => {
+            expect(date.toLocaleString("en-US")).toEqual("1/5/2024");
+            expect(
+                date.toLocaleString("en-GB", {
+                    day: "numeric",
+                    month: "long",
+                    year: "numeric",
+                })
+            ).toEqual("5 January 2024");
+        });
+    });
+
+    describe("ISO week dates", () => {
+        it("should put December 31st in week 1 of the next year", () => {
+            const date = new LocalDate(2024, 12, 31);
+            expect(date.isoWeek).toEqual(1);
+            expect(date.isoWeekYear).toEqual(2025);
+            expect(date.toIsoWeekString()).toEqual("2025-W01-2");
+        });
+
+        it("should put January 1st in week 53 of the previous year", () => {
+            const date = new LocalDate(2021, 1, 1);
+            expect(date.isoWeek).toEqual(53);
+            expect(date.isoWeekYear).toEqual(2020);
+            expect(date.toIsoWeekString()).toEqual("2020-W53-5");
+        });
+
+        it("should parse week dates", () => {
+            expect(LocalDate.fromIsoWeekString("2025-W01-2")).toEqual(
+                new LocalDate(2024, 12, 31)
+            );
+            expect(LocalDate.fromIsoWeekString("2024-W05-7")).toEqual(
+                new LocalDate(2024, 2, 4)
+            );
+            expect(() => LocalDate.fromIsoWeekString("2024-W05-8")).toThrow(
+                DateFormatError
+            );
+        });
+
+        it("should count the day of the year", () => {
+            expect(new LocalDate(2024, 1, 1).dayOfYear).toEqual(1);
+            expect(new LocalDate(2024, 12, 31).dayOfYear).toEqual(366);
+        });
+    });
+
     describe("toQuarter", () => {
         it("should correctly assign quarters at date boundaries", () => {
             const jan1 = new LocalDate(2019, 1, 1);
@@ -250,6 +595,111 @@ describe("LocalWeek", () => {
             new LocalDate(2019, 8, 4),
         ]);
     });
+    describe("weekStart", () => {
+        it("should start on sunday", () => {
+            const wednesday = new LocalDate(2019, 8, 28);
+            const week = new LocalWeek(wednesday, 6);
+            expect(week.first).toEqual(new LocalDate(2019, 8, 25));
+            expect(week.last).toEqual(new LocalDate(2019, 8, 31));
+            expect(week.sunday).toEqual(new LocalDate(2019, 8, 25));
+            expect(week.monday).toEqual(new LocalDate(2019, 8, 26));
+        });
+
+        it("should start on saturday", () => {
+            const saturday = new LocalDate(2019, 8, 31);
+            const week = saturday.toLocalWeek(5);
+            expect(week.first).toEqual(saturday);
+            expect(week.last).toEqual(new LocalDate(2019, 9, 6));
+            expect(week.toDays()[0].weekday).toEqual(5);
+            expect(week.toString()).toEqual("2019-08-31--2019-09-06");
+        });
+
+        it("should keep the week start when adding weeks", () => {
+            const week = new LocalWeek(new LocalDate(2019, 8, 25), 6);
+            const next = week.plusWeeks(1);
+            expect(next.weekStart).toEqual(6);
+            expect(next.first).toEqual(new LocalDate(2019, 9, 1));
+        });
+
+        it("should order weeks with different starts by first day", () => {
+            const sundayWeek = new LocalWeek(new LocalDate(2019, 8, 25), 6);
+            const mondayWeek = new LocalWeek(new LocalDate(2019, 8, 26));
+            expect(sundayWeek.isBefore(mondayWeek)).toBe(true);
+            expect(mondayWeek.isAfter(sundayWeek)).toBe(true);
+        });
+    });
+
+    describe("ISO weeks", () => {
+        it("should number weeks", () => {
+            const week = new LocalDate(2024, 1, 31).toLocalWeek();
+            expect(week.isoWeek).toEqual(5);
+            expect(week.isoWeekYear).toEqual(2024);
+            expect(week.toIsoString()).toEqual("2024-W05");
+        });
+
+        it("should parse weeks", () => {
+            expect(LocalWeek.fromIsoString("2024-W05")).toEqual(
+                new LocalDate(2024, 1, 29).toLocalWeek()
+            );
+            expect(LocalWeek.fromIsoString("2020-W53").first).toEqual(
+                new LocalDate(2020, 12, 28)
+            );
+        });
+
+        it("should reject weeks the year doesn't have", () => {
+            expect(() => LocalWeek.fromIsoString("2021-W53")).toThrow(
+                DateFormatError
+            );
+            expect(() => LocalWeek.fromIsoString("2021-W00")).toThrow(
+                DateFormatError
+            );
+            expect(() => LocalWeek.fromIsoString("2021-5")).toThrow(
+                DateFormatError
+            );
+        });
+    });
+
+    it("should convert to months", () => {
+        const straddling = new LocalDate(2019, 7, 29).toLocalWeek();
+        expect(straddling.toLocalMonths()).toEqual([
+            new LocalMonth(2019, 7),
+            new LocalMonth(2019, 8),
+        ]);
+        const inside = new LocalDate(2019, 8, 5).toLocalWeek();
+        expect(inside.toLocalMonths()).toEqual([new LocalMonth(2019, 8)]);
+    });
+
+    describe("fromString", () => {
+        it("should parse ISO weeks", () => {
+            expect(LocalWeek.fromString("2024-W05")).toEqual(
+                new LocalDate(2024, 1, 29).toLocalWeek()
+            );
+            expect(() => LocalWeek.fromString("2021-W53")).toThrow(
+                DateFormatError
+            );
+        });
+
+        it("should parse its own format", () => {
+            const week = new LocalDate(2024, 1, 28).toLocalWeek(6);
+            expect(LocalWeek.fromString(week.toString())).toEqual(week);
+            expect(LocalWeek.fromString("2024-01-29--2024-02-04")).toEqual(
+                new LocalDate(2024, 1, 29).toLocalWeek()
+            );
+        });
+
+        it("should reject weeks of the wrong length", () => {
+            try {
+                LocalWeek.fromString("2024-01-29--2024-02-05");
+                throw new Error("expected a DateFormatError");
+            } catch (e) {
+                expect((e as DateFormatError).position).toEqual(12);
+            }
+            expect(() =>
+                LocalWeek.fromString("2024-01-29--2024-02-31")
+            ).toThrow(DateFormatError);
+        });
+    });
+
     describe("toString", () => {
         it("should format to string", () => {
             const monday = new LocalDate(2019, 7, 29);
@@ -368,6 +818,38 @@ describe("LocalMonth", () => {
         ]);
     });
 
+    it("should convert to weeks starting on sunday", () => {
+        expect(new LocalMonth(2019, 8).toWeeks(6)).toEqual([
+            new LocalDate(2019, 7, 28).toLocalWeek(6),
+            new LocalDate(2019, 8, 4).toLocalWeek(6),
+            new LocalDate(2019, 8, 11).toLocalWeek(6),
+            new LocalDate(2019, 8, 18).toLocalWeek(6),
+            new LocalDate(2019, 8, 25).toLocalWeek(6),
+        ]);
+    });
+
+    it("should convert to days", () => {
+        const days = new LocalMonth(2020, 2).toDays();
+        expect(days.length).toEqual(29);
+        expect(days[28]).toEqual(new LocalDate(2020, 2, 29));
+    });
+
+    it("should find numbered weekdays", () => {
+        const november = new LocalMonth(2024, 11);
+        expect(november.nthWeekday(3, 4)).toEqual(new LocalDate(2024, 11, 28));
+        expect(november.nthWeekday(4, 1)).toEqual(new LocalDate(2024, 11, 1));
+        expect(november.nthWeekday(5, -1)).toEqual(new LocalDate(2024, 11, 30));
+        expect(november.nthWeekday(0, -2)).toEqual(new LocalDate(2024, 11, 18));
+        expect(november.nthWeekday(0, 5)).toBeUndefined();
+        expect(november.nthWeekday(4, 5)).toEqual(new LocalDate(2024, 11, 29));
+    });
+
+    it("should count months until another month", () => {
+        const month = new LocalMonth(2019, 8);
+        expect(month.monthsUntil(new LocalMonth(2020, 2))).toEqual(6);
+        expect(month.monthsUntil(new LocalMonth(2018, 8))).toEqual(-12);
+    });
+
     it("should list for year", () => {
         expect(LocalMonth.listForYear(2014)).toEqual([
             new LocalMonth(2014, 1),
@@ -408,4 +890,1995 @@ describe("Quarter", () => {
         const q4 = new Quarter(2021, 4);
         expect(q4.end).toEqual(new LocalDate(2021, 12, 31));
     });
+
+    it("should add and subtract quarters", () => {
+        const q3 = new Quarter(2021, 3);
+        expect(q3.plusQuarters(1)).toEqual(new Quarter(2021, 4));
+        expect(q3.plusQuarters(2)).toEqual(new Quarter(2022, 1));
+        expect(q3.minusQuarters(3)).toEqual(new Quarter(2020, 4));
+        expect(new Quarter(0, 1).minusQuarters(1)).toEqual(new Quarter(-1, 4));
+    });
+
+    it("should convert to months", () => {
+        expect(new Quarter(2021, 4).toMonths()).toEqual([
+            new LocalMonth(2021, 10),
+            new LocalMonth(2021, 11),
+            new LocalMonth(2021, 12),
+        ]);
+    });
+
+    it("should convert to weeks", () => {
+        const weeks = new Quarter(2021, 1).toWeeks();
+        expect(weeks.length).toEqual(14);
+        expect(weeks[0].first).toEqual(new LocalDate(2020, 12, 28));
+        expect(weeks[13].first).toEqual(new LocalDate(2021, 3, 29));
+    });
+
+    it("should convert to days", () => {
+        expect(new Quarter(2021, 1).toDays().length).toEqual(90);
+    });
+
+    it("should parse", () => {
+        expect(Quarter.fromString("Q3 2021")).toEqual(new Quarter(2021, 3));
+        expect(Quarter.fromString("2021-Q3")).toEqual(new Quarter(2021, 3));
+        expect(Quarter.fromString(new Quarter(2021, 4).toString())).toEqual(
+            new Quarter(2021, 4)
+        );
+        expect(() => Quarter.fromString("Q5 2021")).toThrow(DateFormatError);
+        expect(() => Quarter.fromString("2021 Q1")).toThrow(DateFormatError);
+    });
+
+    it("should count quarters until another quarter", () => {
+        const quarter = new Quarter(2021, 3);
+        expect(quarter.quartersUntil(new Quarter(2022, 2))).toEqual(3);
+        expect(quarter.quartersUntil(new Quarter(2021, 1))).toEqual(-2);
+    });
+});
+
+describe("LocalYear", () => {
+    it("should have correct first and last days", () => {
+        const year = new LocalYear(2021);
+        expect(year.first).toEqual(new LocalDate(2021, 1, 1));
+        expect(year.last).toEqual(new LocalDate(2021, 12, 31));
+    });
+
+    it("should add and subtract years", () => {
+        expect(new LocalYear(2021).plusYears(3)).toEqual(new LocalYear(2024));
+        expect(new LocalYear(2021).minusYears(2)).toEqual(new LocalYear(2019));
+    });
+
+    it("should compare years", () => {
+        const year = new LocalYear(2021);
+        expect(year.isBefore(new LocalYear(2022))).toBe(true);
+        expect(year.isBefore(year)).toBe(false);
+        expect(year.isAfter(new LocalYear(2020))).toBe(true);
+        expect(year.isAfter(year)).toBe(false);
+        expect(year.equals(new LocalYear(2021))).toBe(true);
+        expect(year.equals(new LocalYear(2020))).toBe(false);
+    });
+
+    it("should know about leap years", () => {
+        expect(new LocalYear(2016).isLeapYear()).toBe(true);
+        expect(new LocalYear(2000).isLeapYear()).toBe(true);
+        expect(new LocalYear(2100).isLeapYear()).toBe(false);
+        expect(new LocalYear(2019).isLeapYear()).toBe(false);
+        expect(new LocalYear(2016).numberOfDays()).toEqual(366);
+        expect(new LocalYear(2019).numberOfDays()).toEqual(365);
+    });
+
+    it("should convert to months", () => {
+        expect(new LocalYear(2014).toMonths()).toEqual(
+            LocalMonth.listForYear(2014)
+        );
+    });
+
+    it("should convert to quarters", () => {
+        expect(new LocalYear(2014).toQuarters()).toEqual([
+            new Quarter(2014, 1),
+            new Quarter(2014, 2),
+            new Quarter(2014, 3),
+            new Quarter(2014, 4),
+        ]);
+    });
+
+    it("should convert to weeks", () => {
+        const weeks = new LocalYear(2019).toWeeks();
+        expect(weeks.length).toEqual(53);
+        expect(weeks[0].monday).toEqual(new LocalDate(2018, 12, 31));
+        expect(weeks[52].sunday).toEqual(new LocalDate(2020, 1, 5));
+    });
+
+    it("should convert from other periods", () => {
+        const year = new LocalYear(2019);
+        expect(new LocalDate(2019, 8, 17).toLocalYear()).toEqual(year);
+        expect(new LocalMonth(2019, 8).toLocalYear()).toEqual(year);
+        expect(new Quarter(2019, 3).toLocalYear()).toEqual(year);
+        expect(LocalYear.fromLocalDate(new LocalDate(2019, 1, 1))).toEqual(
+            year
+        );
+    });
+
+    it("should find easter", () => {
+        expect(new LocalYear(2000).easterSunday()).toEqual(
+            new LocalDate(2000, 4, 23)
+        );
+        expect(new LocalYear(2024).easterSunday()).toEqual(
+            new LocalDate(2024, 3, 31)
+        );
+        expect(new LocalYear(2038).easterSunday()).toEqual(
+            new LocalDate(2038, 4, 25)
+        );
+    });
+
+    it("should count ISO weeks", () => {
+        expect(new LocalYear(2020).numberOfIsoWeeks()).toEqual(53);
+        expect(new LocalYear(2021).numberOfIsoWeeks()).toEqual(52);
+        expect(new LocalYear(2026).numberOfIsoWeeks()).toEqual(53);
+    });
+
+    it("should format and parse", () => {
+        expect(new LocalYear(2019).toString()).toEqual("2019");
+        expect(LocalYear.fromString("2019")).toEqual(new LocalYear(2019));
+        expect(() => LocalYear.fromString("2019-01")).toThrow();
+    });
+});
+
+describe("LocalDateRange", () => {
+    const range = new LocalDateRange(
+        new LocalDate(2019, 8, 10),
+        new LocalDate(2019, 8, 20)
+    );
+
+    it("should reject ranges that end before they start", () => {
+        expect(
+            () =>
+                new LocalDateRange(
+                    new LocalDate(2019, 8, 20),
+                    new LocalDate(2019, 8, 10)
+                )
+        ).toThrow(InvalidRangeError);
+    });
+
+    it("should count days", () => {
+        expect(range.numberOfDays()).toEqual(11);
+        expect(
+            LocalDateRange.fromPeriod(new LocalMonth(2020, 2)).numberOfDays()
+        ).toEqual(29);
+        expect(range.toDays().length).toEqual(11);
+    });
+
+    it("should convert to and from half-open ranges", () => {
+        expect(range.endExclusive).toEqual(new LocalDate(2019, 8, 21));
+        expect(
+            LocalDateRange.fromHalfOpen(
+                new LocalDate(2019, 8, 10),
+                new LocalDate(2019, 8, 21)
+            )
+        ).toEqual(range);
+    });
+
+    it("should check containment", () => {
+        expect(range.contains(new LocalDate(2019, 8, 10))).toBe(true);
+        expect(range.contains(new LocalDate(2019, 8, 21))).toBe(false);
+        expect(range.contains(new LocalDate(2019, 8, 12).toLocalWeek())).toBe(
+            true
+        );
+        expect(range.contains(new LocalDate(2019, 8, 19).toLocalWeek())).toBe(
+            false
+        );
+    });
+
+    it("should check overlaps", () => {
+        expect(range.overlaps(new LocalDate(2019, 8, 19).toLocalWeek())).toBe(
+            true
+        );
+        expect(range.overlaps(new LocalMonth(2019, 9))).toBe(false);
+        expect(range.overlaps(new Quarter(2019, 3))).toBe(true);
+    });
+
+    it("should intersect", () => {
+        expect(
+            range.intersection(new LocalDate(2019, 8, 19).toLocalWeek())
+        ).toEqual(
+            new LocalDateRange(
+                new LocalDate(2019, 8, 19),
+                new LocalDate(2019, 8, 20)
+            )
+        );
+        expect(range.intersection(new LocalMonth(2019, 9))).toBeUndefined();
+    });
+
+    it("should subtract", () => {
+        expect(range.subtract(new LocalDate(2019, 8, 15))).toEqual([
+            new LocalDateRange(
+                new LocalDate(2019, 8, 10),
+                new LocalDate(2019, 8, 14)
+            ),
+            new LocalDateRange(
+                new LocalDate(2019, 8, 16),
+                new LocalDate(2019, 8, 20)
+            ),
+        ]);
+        expect(range.subtract(new LocalMonth(2019, 8))).toEqual([]);
+        expect(range.subtract(new LocalMonth(2019, 9))).toEqual([range]);
+    });
+
+    it("should merge overlapping and touching periods", () => {
+        expect(
+            LocalDateRange.merge([
+                new LocalMonth(2019, 9),
+                range,
+                new LocalDate(2019, 8, 26).toLocalWeek(),
+                new LocalDate(2019, 8, 19).toLocalWeek(),
+                new LocalDate(2019, 8, 1),
+            ])
+        ).toEqual([
+            new LocalDateRange(
+                new LocalDate(2019, 8, 1),
+                new LocalDate(2019, 8, 1)
+            ),
+            new LocalDateRange(
+                new LocalDate(2019, 8, 10),
+                new LocalDate(2019, 9, 30)
+            ),
+        ]);
+    });
+
+    it("should find gaps", () => {
+        const periods = [new LocalDate(2019, 8, 1), range];
+        expect(LocalDateRange.gaps(periods)).toEqual([
+            new LocalDateRange(
+                new LocalDate(2019, 8, 2),
+                new LocalDate(2019, 8, 9)
+            ),
+        ]);
+        expect(LocalDateRange.gaps(periods, new LocalMonth(2019, 8))).toEqual([
+            new LocalDateRange(
+                new LocalDate(2019, 8, 2),
+                new LocalDate(2019, 8, 9)
+            ),
+            new LocalDateRange(
+                new LocalDate(2019, 8, 21),
+                new LocalDate(2019, 8, 31)
+            ),
+        ]);
+    });
+
+    describe("split", () => {
+        it("should split into weeks and flag partial ones", () => {
+            const pieces = range.split("week");
+            expect(pieces.map((piece) => piece.period)).toEqual([
+                new LocalDate(2019, 8, 5).toLocalWeek(),
+                new LocalDate(2019, 8, 12).toLocalWeek(),
+                new LocalDate(2019, 8, 19).toLocalWeek(),
+            ]);
+            expect(pieces.map((piece) => piece.isPartial)).toEqual([
+                true,
+                false,
+                true,
+            ]);
+            expect(pieces[0].start).toEqual(new LocalDate(2019, 8, 5));
+        });
+
+        it("should clip pieces to the range", () => {
+            const pieces = range.split("week", { clip: true, weekStart: 6 });
+            expect(pieces[0].start).toEqual(new LocalDate(2019, 8, 10));
+            expect(pieces[0].end).toEqual(new LocalDate(2019, 8, 10));
+            expect(pieces[0].period.first).toEqual(new LocalDate(2019, 8, 4));
+            expect(pieces[2].start).toEqual(new LocalDate(2019, 8, 18));
+            expect(pieces[2].end).toEqual(new LocalDate(2019, 8, 20));
+        });
+
+        it("should split into days, months, quarters and years", () => {
+            expect(range.split("day").length).toEqual(11);
+            expect(range.split("day").every((piece) => !piece.isPartial)).toBe(
+                true
+            );
+            const year = LocalDateRange.fromPeriod(new LocalYear(2019));
+            expect(year.split("month").length).toEqual(12);
+            expect(year.split("quarter").map((piece) => piece.period)).toEqual(
+                new LocalYear(2019).toQuarters()
+            );
+            expect(range.split("year")).toEqual([
+                {
+                    period: new LocalYear(2019),
+                    start: new LocalDate(2019, 1, 1),
+                    end: new LocalDate(2019, 12, 31),
+                    isPartial: true,
+                },
+            ]);
+        });
+    });
+
+    it("should format and parse", () => {
+        expect(range.toString()).toEqual("2019-08-10--2019-08-20");
+        expect(LocalDateRange.fromString("2019-08-10--2019-08-20")).toEqual(
+            range
+        );
+    });
+});
+
+describe("Comparable", () => {
+    const jan = new LocalMonth(2019, 1);
+    const feb = new LocalMonth(2019, 2);
+    const mar = new LocalMonth(2019, 3);
+
+    it("should compare for sorting", () => {
+        expect(jan.compare(feb)).toBeLessThan(0);
+        expect(feb.compare(jan)).toBeGreaterThan(0);
+        expect(jan.compare(new LocalMonth(2019, 1))).toEqual(0);
+        expect([mar, jan, feb].sort(Comparable.compare)).toEqual([
+            jan,
+            feb,
+            mar,
+        ]);
+    });
+
+    it("should concatenate as text but compare as numbers", () => {
+        expect("" + new LocalDate(2024, 1, 2)).toEqual("2024-01-02");
+        expect("due " + new LocalMonth(2024, 3)).toEqual("due 2024-03");
+        expect(new Quarter(2024, 1) + "").toEqual("Q1 2024");
+        expect(+new LocalDate(1970, 1, 2)).toEqual(1);
+        expect(jan < feb).toBe(true);
+        expect(mar > feb).toBe(true);
+    });
+
+    it("should compare quarters", () => {
+        const q1 = new Quarter(2019, 1);
+        expect(q1.isBefore(new Quarter(2019, 2))).toBe(true);
+        expect(q1.isAfter(new Quarter(2018, 4))).toBe(true);
+        expect(q1.equals(new Quarter(2019, 1))).toBe(true);
+    });
+
+    it("should compare weeks with different starts by first day", () => {
+        const date = new LocalDate(2019, 8, 28);
+        expect(date.toLocalWeek().equals(date.toLocalWeek(6))).toBe(false);
+        expect(date.toLocalWeek(6).isBefore(date.toLocalWeek())).toBe(true);
+        expect(date.toLocalWeek().equals(date.toLocalWeek())).toBe(true);
+    });
+
+    it("should check same or before and after", () => {
+        expect(jan.isSameOrBefore(jan)).toBe(true);
+        expect(jan.isSameOrBefore(feb)).toBe(true);
+        expect(feb.isSameOrBefore(jan)).toBe(false);
+        expect(jan.isSameOrAfter(jan)).toBe(true);
+        expect(jan.isSameOrAfter(feb)).toBe(false);
+    });
+
+    it("should check between with inclusivity", () => {
+        const date = new LocalDate(2019, 8, 10);
+        const end = new LocalDate(2019, 8, 20);
+        expect(date.isBetween(date, end)).toBe(true);
+        expect(date.isBetween(date, end, "end")).toBe(false);
+        expect(end.isBetween(date, end, "start")).toBe(false);
+        expect(end.isBetween(date, end, "end")).toBe(true);
+        expect(date.plusDays(1).isBetween(date, end, "neither")).toBe(true);
+    });
+
+    it("should find min and max, sort and clamp", () => {
+        expect(LocalMonth.min(feb, mar, jan)).toEqual(jan);
+        expect(LocalMonth.max(feb, mar, jan)).toEqual(mar);
+        expect(LocalMonth.sort([mar, jan, feb])).toEqual([jan, feb, mar]);
+        expect(jan.clamp(feb, mar)).toEqual(feb);
+        expect(new LocalMonth(2019, 5).clamp(feb, mar)).toEqual(mar);
+        expect(feb.clamp(jan, mar)).toBe(feb);
+    });
+
+    it("should have stable values for keys", () => {
+        const date = new LocalDate(2019, 8, 10);
+        expect(date.valueOf()).toEqual(new LocalDate(2019, 8, 10).valueOf());
+        expect(new Quarter(2019, 4).valueOf() + 1).toEqual(
+            new Quarter(2020, 1).valueOf()
+        );
+        expect(new LocalMonth(2019, 12).valueOf() + 1).toEqual(
+            new LocalMonth(2020, 1).valueOf()
+        );
+        expect(new LocalYear(2019).valueOf()).toEqual(2019);
+        const counts = new Map([[date.valueOf(), 1]]);
+        expect(counts.get(new LocalDate(2019, 8, 10).valueOf())).toEqual(1);
+    });
+});
+
+describe("LocalDateMap", () => {
+    const map = () =>
+        new LocalDateMap<LocalDate, number>([
+            [new LocalDate(2019, 8, 20), 20],
+            [new LocalDate(2019, 8, 10), 10],
+            [new LocalDate(2019, 8, 15), 15],
+        ]);
+
+    it("should look up by value", () => {
+        const dates = map();
+        expect(dates.get(new LocalDate(2019, 8, 15))).toEqual(15);
+        expect(dates.has(new LocalDate(2019, 8, 14))).toBe(false);
+        dates.set(new LocalDate(2019, 8, 15), 16);
+        expect(dates.get(new LocalDate(2019, 8, 15))).toEqual(16);
+        expect(dates.size).toEqual(3);
+    });
+
+    it("should iterate in chronological order", () => {
+        expect([...map().values()]).toEqual([10, 15, 20]);
+        expect([...map()].map(([date]) => date.toString())).toEqual([
+            "2019-08-10",
+            "2019-08-15",
+            "2019-08-20",
+        ]);
+    });
+
+    it("should delete", () => {
+        const dates = map();
+        expect(dates.delete(new LocalDate(2019, 8, 15))).toBe(true);
+        expect(dates.delete(new LocalDate(2019, 8, 15))).toBe(false);
+        expect([...dates.values()]).toEqual([10, 20]);
+    });
+
+    it("should query ranges", () => {
+        const dates = map();
+        const start = new LocalDate(2019, 8, 10);
+        const end = new LocalDate(2019, 8, 15);
+        expect(dates.between(start, end).map(([, n]) => n)).toEqual([10, 15]);
+        expect(dates.between(start, end, "neither").map(([, n]) => n)).toEqual(
+            []
+        );
+    });
+
+    it("should find nearest keys", () => {
+        const dates = map();
+        expect(dates.floor(new LocalDate(2019, 8, 14))).toEqual([
+            new LocalDate(2019, 8, 10),
+            10,
+        ]);
+        expect(dates.floor(new LocalDate(2019, 8, 15))![1]).toEqual(15);
+        expect(dates.floor(new LocalDate(2019, 8, 9))).toBeUndefined();
+        expect(dates.ceiling(new LocalDate(2019, 8, 16))![1]).toEqual(20);
+        expect(dates.ceiling(new LocalDate(2019, 8, 21))).toBeUndefined();
+        expect(dates.first()![1]).toEqual(10);
+        expect(dates.last()![1]).toEqual(20);
+    });
+
+    it("should key by other periods", () => {
+        const months = new LocalDateMap<LocalMonth, string>();
+        months.set(new LocalMonth(2019, 9), "september");
+        months.set(new LocalMonth(2019, 8), "august");
+        expect(months.get(new LocalDate(2019, 9, 4).toLocalMonth())).toEqual(
+            "september"
+        );
+        expect([...months.values()]).toEqual(["august", "september"]);
+    });
+});
+
+describe("LocalDateSet", () => {
+    it("should hold unique quarters in order", () => {
+        const quarters = new LocalDateSet([
+            new Quarter(2019, 3),
+            new Quarter(2019, 1),
+            new Quarter(2019, 3),
+        ]);
+        expect(quarters.size).toEqual(2);
+        expect(quarters.has(new Quarter(2019, 1))).toBe(true);
+        expect([...quarters]).toEqual([
+            new Quarter(2019, 1),
+            new Quarter(2019, 3),
+        ]);
+    });
+
+    it("should find nearest and ranges of weeks", () => {
+        const weeks = new LocalDateSet(
+            new LocalMonth(2019, 8).toWeeks().filter((_, i) => i % 2 === 0)
+        );
+        const week = new LocalDate(2019, 8, 21).toLocalWeek();
+        expect(weeks.floor(week)).toEqual(
+            new LocalDate(2019, 8, 12).toLocalWeek()
+        );
+        expect(weeks.ceiling(week)).toEqual(
+            new LocalDate(2019, 8, 26).toLocalWeek()
+        );
+        expect(weeks.between(week, week.plusWeeks(4))).toEqual([
+            new LocalDate(2019, 8, 26).toLocalWeek(),
+        ]);
+    });
+});
+
+describe("BusinessCalendar", () => {
+    // Wednesday 2019-12-25 is a holiday
+    const calendar = new BusinessCalendar({
+        holidays: [new LocalDate(2019, 12, 25)],
+    });
+    const friday = new LocalDate(2019, 12, 20);
+
+    it("should know business days", () => {
+        expect(calendar.isBusinessDay(friday)).toBe(true);
+        expect(calendar.isBusinessDay(friday.plusDays(1))).toBe(false);
+        expect(calendar.isWeekend(friday.plusDays(2))).toBe(true);
+        expect(calendar.isHoliday(new LocalDate(2019, 12, 25))).toBe(true);
+        expect(calendar.isBusinessDay(new LocalDate(2019, 12, 25))).toBe(false);
+    });
+
+    it("should use a configured weekend", () => {
+        const fridaySaturday = new BusinessCalendar({ weekend: [4, 5] });
+        expect(fridaySaturday.isBusinessDay(friday)).toBe(false);
+        expect(fridaySaturday.isBusinessDay(friday.plusDays(2))).toBe(true);
+        expect(
+            () => new BusinessCalendar({ weekend: [0, 1, 2, 3, 4, 5, 6] })
+        ).toThrow(RangeError);
+    });
+
+    it("should add business days over weekends and holidays", () => {
+        expect(calendar.plusBusinessDays(friday, 1)).toEqual(
+            new LocalDate(2019, 12, 23)
+        );
+        expect(calendar.plusBusinessDays(friday, 5)).toEqual(
+            new LocalDate(2019, 12, 30)
+        );
+        expect(calendar.plusBusinessDays(friday, 0)).toEqual(friday);
+        expect(
+            calendar.minusBusinessDays(new LocalDate(2019, 12, 30), 5)
+        ).toEqual(friday);
+        expect(() => calendar.plusBusinessDays(friday, Infinity)).toThrow(
+            RangeError
+        );
+        expect(() => calendar.plusBusinessDays(friday, 1.5)).toThrow(
+            RangeError
+        );
+        expect(() => calendar.minusBusinessDays(friday, NaN)).toThrow(
+            RangeError
+        );
+    });
+
+    it("should find the next and previous business days", () => {
+        expect(calendar.nextBusinessDay(new LocalDate(2019, 12, 24))).toEqual(
+            new LocalDate(2019, 12, 26)
+        );
+        expect(
+            calendar.previousBusinessDay(new LocalDate(2019, 12, 23))
+        ).toEqual(friday);
+    });
+
+    it("should count business days between dates", () => {
+        const end = new LocalDate(2019, 12, 30);
+        expect(calendar.businessDaysBetween(friday, end)).toEqual(5);
+        expect(calendar.businessDaysBetween(end, friday)).toEqual(-5);
+        expect(calendar.businessDaysBetween(friday, friday)).toEqual(0);
+    });
+
+    it("should count backward from a weekend day", () => {
+        const saturday = new LocalDate(2024, 6, 1);
+        const sunday = new LocalDate(2024, 6, 2);
+        const weekdays = new BusinessCalendar();
+        for (const start of [saturday, sunday]) {
+            for (const n of [1, 2, 5, 10]) {
+                const end = weekdays.minusBusinessDays(start, n);
+                expect(weekdays.businessDaysBetween(start, end)).toEqual(-n);
+            }
+        }
+        expect(weekdays.minusBusinessDays(saturday, 1)).toEqual(
+            new LocalDate(2024, 5, 31)
+        );
+        expect(
+            Object.is(weekdays.businessDaysBetween(sunday, saturday), 0)
+        ).toBe(true);
+    });
+
+    it("should count business days in periods", () => {
+        expect(calendar.businessDaysIn(friday.toLocalWeek())).toEqual(5);
+        expect(calendar.businessDaysIn(new LocalMonth(2019, 12))).toEqual(21);
+        expect(calendar.businessDaysIn(new Quarter(2019, 4))).toEqual(65);
+        expect(
+            calendar.listBusinessDays(new LocalDate(2019, 12, 23).toLocalWeek())
+        ).toEqual([
+            new LocalDate(2019, 12, 23),
+            new LocalDate(2019, 12, 24),
+            new LocalDate(2019, 12, 26),
+            new LocalDate(2019, 12, 27),
+        ]);
+    });
+
+    it("should add holidays", () => {
+        const withBoxingDay = calendar.withHolidays([
+            new LocalDate(2019, 12, 26),
+        ]);
+        expect(withBoxingDay.isHoliday(new LocalDate(2019, 12, 25))).toBe(true);
+        expect(withBoxingDay.isHoliday(new LocalDate(2019, 12, 26))).toBe(true);
+        expect(calendar.isHoliday(new LocalDate(2019, 12, 26))).toBe(false);
+    });
+});
+
+describe("HolidaySchedule", () => {
+    it("should generate US federal holidays", () => {
+        const schedule = new HolidaySchedule(US_FEDERAL_HOLIDAYS);
+        expect(
+            schedule.datesIn(new LocalYear(2024)).map((date) => date.toString())
+        ).toEqual([
+            "2024-01-01",
+            "2024-01-15",
+            "2024-02-19",
+            "2024-05-27",
+            "2024-06-19",
+            "2024-07-04",
+            "2024-09-02",
+            "2024-10-14",
+            "2024-11-11",
+            "2024-11-28",
+            "2024-12-25",
+        ]);
+    });
+
+    it("should observe US holidays on the nearest weekday", () => {
+        const schedule = new HolidaySchedule(US_FEDERAL_HOLIDAYS);
+        expect(schedule.holidaysIn(new LocalMonth(2026, 7))).toEqual([
+            {
+                name: "Independence Day",
+                date: new LocalDate(2026, 7, 3),
+                actualDate: new LocalDate(2026, 7, 4),
+            },
+        ]);
+        // New Year's Day 2022 was a Saturday
+        expect(schedule.datesIn(new LocalMonth(2021, 12)).map(String)).toEqual([
+            "2021-12-24",
+            "2021-12-31",
+        ]);
+        expect(schedule.datesIn(new LocalMonth(2022, 1)).map(String)).toEqual([
+            "2022-01-17",
+        ]);
+    });
+
+    it("should only include holidays from their first year", () => {
+        const schedule = new HolidaySchedule(US_FEDERAL_HOLIDAYS);
+        expect(schedule.holidaysIn(new LocalMonth(2020, 6))).toEqual([]);
+    });
+
+    it("should substitute UK bank holidays without collisions", () => {
+        const schedule = new HolidaySchedule(UK_BANK_HOLIDAYS);
+        expect(schedule.datesIn(new LocalMonth(2021, 12)).map(String)).toEqual([
+            "2021-12-27",
+            "2021-12-28",
+        ]);
+        expect(schedule.datesIn(new LocalMonth(2022, 12)).map(String)).toEqual([
+            "2022-12-26",
+            "2022-12-27",
+        ]);
+        expect(schedule.datesIn(new LocalMonth(2024, 3)).map(String)).toEqual([
+            "2024-03-29",
+        ]);
+    });
+
+    it("should use a custom weekend for observed days", () => {
+        const rules: HolidayRule[] = [
+            {
+                name: "Holiday",
+                type: "fixed",
+                month: 1,
+                day: 5,
+                observed: "nextWeekday",
+            },
+        ];
+        // 2024-01-05 was a Friday
+        const schedule = new HolidaySchedule(rules, { weekend: [4, 5] });
+        expect(schedule.datesIn(new LocalMonth(2024, 1))).toEqual([
+            new LocalDate(2024, 1, 7),
+        ]);
+    });
+
+    it("should feed a business calendar", () => {
+        const holidays = new HolidaySchedule(US_FEDERAL_HOLIDAYS).datesIn(
+            new LocalYear(2024)
+        );
+        const calendar = new BusinessCalendar({ holidays });
+        expect(calendar.businessDaysIn(new LocalYear(2024))).toEqual(251);
+    });
+});
+
+describe("RecurrenceRule", () => {
+    const start = new LocalDate(2024, 1, 1);
+    const take = (dates: Iterable<LocalDate>, count: number) => {
+        const result: string[] = [];
+        for (const date of dates) {
+            if (result.length >= count) break;
+            result.push(date.toString());
+        }
+        return result;
+    };
+
+    it("should repeat on numbered weekdays", () => {
+        const rule = RecurrenceRule.fromString("FREQ=MONTHLY;BYDAY=2TU", start);
+        expect(take(rule.occurrences(), 3)).toEqual([
+            "2024-01-09",
+            "2024-02-13",
+            "2024-03-12",
+        ]);
+    });
+
+    it("should pick the last weekday of each month", () => {
+        const rule = RecurrenceRule.fromString(
+            "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1",
+            start
+        );
+        expect(
+            [...rule.between(start, new LocalDate(2024, 6, 30))].map(String)
+        ).toEqual([
+            "2024-01-31",
+            "2024-02-29",
+            "2024-03-29",
+            "2024-04-30",
+            "2024-05-31",
+            "2024-06-28",
+        ]);
+    });
+
+    it("should repeat quarterly with an interval and count", () => {
+        const rule = new RecurrenceRule({
+            freq: "MONTHLY",
+            start,
+            interval: 3,
+            count: 4,
+            byMonthDay: [15],
+        });
+        expect([...rule.occurrences()].map(String)).toEqual([
+            "2024-01-15",
+            "2024-04-15",
+            "2024-07-15",
+            "2024-10-15",
+        ]);
+    });
+
+    it("should count days from the end of the month", () => {
+        const rule = RecurrenceRule.fromString(
+            "FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3",
+            start
+        );
+        expect([...rule.occurrences()].map(String)).toEqual([
+            "2024-01-31",
+            "2024-02-29",
+            "2024-03-31",
+        ]);
+    });
+
+    it("should skip months without the start day", () => {
+        const rule = RecurrenceRule.fromString(
+            "FREQ=MONTHLY;COUNT=3",
+            new LocalDate(2024, 1, 31)
+        );
+        expect([...rule.occurrences()].map(String)).toEqual([
+            "2024-01-31",
+            "2024-03-31",
+            "2024-05-31",
+        ]);
+    });
+
+    it("should repeat weekly on several days", () => {
+        const rule = RecurrenceRule.fromString(
+            "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20240131",
+            start
+        );
+        expect([...rule.occurrences()].map(String)).toEqual([
+            "2024-01-01",
+            "2024-01-03",
+            "2024-01-15",
+            "2024-01-17",
+            "2024-01-29",
+            "2024-01-31",
+        ]);
+    });
+
+    it("should repeat daily", () => {
+        const rule = RecurrenceRule.fromString(
+            "FREQ=DAILY;INTERVAL=10;BYMONTH=1,2",
+            start
+        );
+        expect(take(rule.occurrences(), 7)).toEqual([
+            "2024-01-01",
+            "2024-01-11",
+            "2024-01-21",
+            "2024-01-31",
+            "2024-02-10",
+            "2024-02-20",
+            "2025-01-05",
+        ]);
+    });
+
+    it("should repeat yearly", () => {
+        const thanksgiving = RecurrenceRule.fromString(
+            "FREQ=YEARLY;BYMONTH=11;BYDAY=4TH",
+            start
+        );
+        expect(take(thanksgiving.occurrences(), 2)).toEqual([
+            "2024-11-28",
+            "2025-11-27",
+        ]);
+        const leapDay = RecurrenceRule.fromString(
+            "FREQ=YEARLY",
+            new LocalDate(2024, 2, 29)
+        );
+        expect(take(leapDay.occurrences(), 2)).toEqual([
+            "2024-02-29",
+            "2028-02-29",
+        ]);
+        const lastMonday = RecurrenceRule.fromString(
+            "FREQ=YEARLY;BYDAY=-1MO",
+            start
+        );
+        expect(take(lastMonday.occurrences(), 1)).toEqual(["2024-12-30"]);
+    });
+
+    it("should end rules that can never match", () => {
+        const rule = RecurrenceRule.fromString(
+            "FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30",
+            start
+        );
+        expect([...rule.occurrences()]).toEqual([]);
+    });
+
+    it("should serialize", () => {
+        const rule =
+            "FREQ=MONTHLY;INTERVAL=2;UNTIL=20241231;BYMONTH=1,3;BYMONTHDAY=-1;BYDAY=MO,-1FR;BYSETPOS=1;WKST=SU";
+        expect(RecurrenceRule.fromString(rule, start).toString()).toEqual(rule);
+        expect(
+            RecurrenceRule.fromString("RRULE:freq=weekly", start).toString()
+        ).toEqual("FREQ=WEEKLY");
+    });
+
+    it("should reject rules it can't handle", () => {
+        const parse = (rule: string) => () =>
+            RecurrenceRule.fromString(rule, start);
+        expect(parse("FREQ=HOURLY")).toThrow(RecurrenceRuleError);
+        expect(parse("FREQ=DAILY;BYHOUR=9")).toThrow(RecurrenceRuleError);
+        expect(parse("INTERVAL=2")).toThrow(RecurrenceRuleError);
+        expect(parse("FREQ=DAILY;COUNT=2;UNTIL=20240101")).toThrow(
+            RecurrenceRuleError
+        );
+        expect(parse("FREQ=MONTHLY;BYMONTHDAY=0")).toThrow(RecurrenceRuleError);
+        expect(parse("FREQ=MONTHLY;BYDAY=XX")).toThrow(RecurrenceRuleError);
+        expect(parse("FREQ=DAILY;INTERVAL=0")).toThrow(RecurrenceRuleError);
+    });
+});
+
+describe("FiscalCalendar", () => {
+    const april = new FiscalCalendar(4);
+
+    it("should name fiscal years after the year they end in by default", () => {
+        const year = april.yearOf(new LocalDate(2024, 5, 1));
+        expect(year.toString()).toEqual("FY25");
+        expect(year.start).toEqual(new LocalDate(2024, 4, 1));
+        expect(year.end).toEqual(new LocalDate(2025, 3, 31));
+        expect(april.yearOf(new LocalDate(2025, 3, 31)).year).toEqual(2025);
+        expect(april.yearOf(new LocalDate(2025, 4, 1)).year).toEqual(2026);
+    });
+
+    it("should name fiscal years after the year they start in", () => {
+        const calendar = new FiscalCalendar(4, "startYear");
+        const year = calendar.yearOf(new LocalDate(2025, 2, 1));
+        expect(year.toString()).toEqual("FY24");
+        expect(year.start).toEqual(new LocalDate(2024, 4, 1));
+    });
+
+    it("should match calendar years when starting in january", () => {
+        const january = new FiscalCalendar(1);
+        const year = january.yearOf(new LocalDate(2024, 7, 4));
+        expect(year.year).toEqual(2024);
+        expect(year.start).toEqual(new LocalDate(2024, 1, 1));
+        expect(year.end).toEqual(new LocalDate(2024, 12, 31));
+    });
+
+    it("should find fiscal quarters and months", () => {
+        const october = new FiscalCalendar(10);
+        const date = new LocalDate(2024, 1, 15);
+        const quarter = october.quarterOf(date);
+        expect(quarter.toString()).toEqual("FY24 Q2");
+        expect(quarter.start).toEqual(new LocalDate(2024, 1, 1));
+        expect(quarter.end).toEqual(new LocalDate(2024, 3, 31));
+        const month = october.monthOf(date);
+        expect(month.toString()).toEqual("FY24 M04");
+        expect(month.toLocalMonth()).toEqual(new LocalMonth(2024, 1));
+        expect(month.toFiscalQuarter().equals(quarter)).toBe(true);
+    });
+
+    it("should step across fiscal years", () => {
+        const q4 = april.quarter(2025, 4);
+        expect(q4.plusQuarters(1).toString()).toEqual("FY26 Q1");
+        expect(q4.minusQuarters(4).toString()).toEqual("FY24 Q4");
+        expect(april.quarter(2025, 1).minusQuarters(1).toString()).toEqual(
+            "FY24 Q4"
+        );
+        const month = april.month(2025, 12);
+        expect(month.plusMonths(1).toString()).toEqual("FY26 M01");
+        expect(month.minusMonths(12).toString()).toEqual("FY24 M12");
+        expect(april.year(2025).plusYears(2).toString()).toEqual("FY27");
+        expect(april.year(2025).minusYears(1).start).toEqual(
+            new LocalDate(2023, 4, 1)
+        );
+    });
+
+    it("should split fiscal years into quarters and months", () => {
+        const year = april.year(2025);
+        expect(year.toQuarters().map(String)).toEqual([
+            "FY25 Q1",
+            "FY25 Q2",
+            "FY25 Q3",
+            "FY25 Q4",
+        ]);
+        const months = year.toMonths();
+        expect(months).toHaveLength(12);
+        expect(months[0].toLocalMonth()).toEqual(new LocalMonth(2024, 4));
+        expect(months[11].toLocalMonth()).toEqual(new LocalMonth(2025, 3));
+        expect(april.quarter(2025, 3).toMonths().map(String)).toEqual([
+            "FY25 M07",
+            "FY25 M08",
+            "FY25 M09",
+        ]);
+    });
+
+    it("should compare fiscal periods", () => {
+        const q1 = april.quarter(2025, 1);
+        const q2 = april.quarter(2025, 2);
+        expect(q1.isBefore(q2)).toBe(true);
+        expect(q2.compare(q1)).toBeGreaterThan(0);
+        expect(april.year(2024).isBefore(april.year(2025))).toBe(true);
+        expect(
+            april
+                .month(2025, 3)
+                .equals(april.monthOf(new LocalDate(2024, 6, 9)))
+        ).toBe(true);
+    });
+
+    it("should reject invalid start months", () => {
+        expect(() => new FiscalCalendar(0)).toThrow(RangeError);
+        expect(() => new FiscalCalendar(13)).toThrow(RangeError);
+        expect(() => new FiscalCalendar(4.5)).toThrow(RangeError);
+    });
+});
+
+describe("RetailCalendar", () => {
+    // The NRF 4-5-4 calendar ends on the Saturday nearest the end of January
+    const nrf = new RetailCalendar({
+        pattern: "4-5-4",
+        yearEnd: { month: 1, rule: "nearest" },
+        weekStart: 6,
+        naming: "startYear",
+    });
+
+    it("should find retail years", () => {
+        const year = nrf.yearOf(new LocalDate(2024, 3, 1));
+        expect(year.year).toEqual(2024);
+        expect(year.start).toEqual(new LocalDate(2024, 2, 4));
+        expect(year.end).toEqual(new LocalDate(2025, 2, 1));
+        expect(year.numberOfWeeks).toEqual(52);
+        expect(nrf.yearOf(new LocalDate(2024, 2, 3)).year).toEqual(2023);
+        expect(nrf.yearOf(new LocalDate(2025, 2, 1)).year).toEqual(2024);
+        expect(nrf.yearOf(new LocalDate(2025, 2, 2)).year).toEqual(2025);
+    });
+
+    it("should map dates to quarters, periods and weeks", () => {
+        const date = new LocalDate(2024, 3, 3);
+        expect(nrf.weekOf(date).toString()).toEqual("2024 W05");
+        expect(nrf.periodOf(date).toString()).toEqual("2024 P02");
+        expect(nrf.quarterOf(date).toString()).toEqual("2024 Q1");
+        expect(nrf.periodOf(new LocalDate(2024, 3, 2)).toString()).toEqual(
+            "2024 P01"
+        );
+        const quarter = nrf.quarter(2024, 1);
+        expect(quarter.start).toEqual(new LocalDate(2024, 2, 4));
+        expect(quarter.end).toEqual(new LocalDate(2024, 5, 4));
+    });
+
+    it("should list the weeks of a period", () => {
+        const period = nrf.period(2024, 2);
+        expect(period.numberOfWeeks).toEqual(5);
+        expect(period.start).toEqual(new LocalDate(2024, 3, 3));
+        expect(period.end).toEqual(new LocalDate(2024, 4, 6));
+        const weeks = period.toWeeks();
+        expect(weeks.map(String)).toEqual([
+            "2024 W05",
+            "2024 W06",
+            "2024 W07",
+            "2024 W08",
+            "2024 W09",
+        ]);
+        expect(weeks[0].toLocalWeek()).toEqual(
+            new LocalWeek(new LocalDate(2024, 3, 3), 6)
+        );
+        expect(nrf.quarter(2024, 1).toWeeks()).toHaveLength(13);
+        expect(
+            nrf
+                .year(2024)
+                .toPeriods()
+                .map((p) => p.numberOfWeeks)
+        ).toEqual([4, 5, 4, 4, 5, 4, 4, 5, 4, 4, 5, 4]);
+    });
+
+    it("should add a 53rd week to the last period", () => {
+        const year = nrf.year(2023);
+        expect(year.hasExtraWeek).toBe(true);
+        expect(year.start).toEqual(new LocalDate(2023, 1, 29));
+        expect(year.end).toEqual(new LocalDate(2024, 2, 3));
+        expect(year.toWeeks()).toHaveLength(53);
+        expect(nrf.periodLengths(2023)[11]).toEqual(5);
+        const week53 = nrf.weekOf(new LocalDate(2024, 2, 1));
+        expect(week53.toString()).toEqual("2023 W53");
+        expect(week53.toRetailPeriod().toString()).toEqual("2023 P12");
+        expect(week53.toRetailQuarter().end).toEqual(year.end);
+        expect(nrf.week(2023, 52).plusWeeks(1).equals(week53)).toBe(true);
+        expect(week53.plusWeeks(1).toString()).toEqual("2024 W01");
+        expect(nrf.week(2024, 1).minusWeeks(1).equals(week53)).toBe(true);
+        expect(() => nrf.week(2024, 53)).toThrow(RangeError);
+    });
+
+    it("should end years on the last week day of a month", () => {
+        const calendar = new RetailCalendar({
+            pattern: "4-4-5",
+            yearEnd: { month: 12, rule: "last" },
+            weekStart: 6,
+        });
+        const year = calendar.year(2024);
+        expect(year.start).toEqual(new LocalDate(2023, 12, 31));
+        expect(year.end).toEqual(new LocalDate(2024, 12, 28));
+        expect(calendar.period(2024, 3).numberOfWeeks).toEqual(5);
+        expect(
+            calendar.periodOf(new LocalDate(2024, 12, 29)).toString()
+        ).toEqual("2025 P01");
+    });
+
+    it("should step and compare periods", () => {
+        const p12 = nrf.period(2024, 12);
+        expect(p12.plusPeriods(1).toString()).toEqual("2025 P01");
+        expect(p12.minusPeriods(12).toString()).toEqual("2023 P12");
+        expect(nrf.quarter(2024, 1).minusQuarters(1).toString()).toEqual(
+            "2023 Q4"
+        );
+        expect(p12.isAfter(nrf.period(2024, 1))).toBe(true);
+        expect(nrf.year(2023).isBefore(nrf.year(2024))).toBe(true);
+    });
+});
+
+describe("time zone instants", () => {
+    const iso = (date: Date) => date.toISOString();
+
+    it("should find the start and end of a day", () => {
+        const date = new LocalDate(2024, 6, 14);
+        expect(iso(date.startOfDayInTz("America/New_York"))).toEqual(
+            "2024-06-14T04:00:00.000Z"
+        );
+        expect(iso(date.endOfDayInTz("America/New_York"))).toEqual(
+            "2024-06-15T04:00:00.000Z"
+        );
+        expect(iso(date.startOfDayInTz("Asia/Kathmandu"))).toEqual(
+            "2024-06-13T18:15:00.000Z"
+        );
+        expect(iso(date.startOfDayInTz("UTC"))).toEqual(
+            "2024-06-14T00:00:00.000Z"
+        );
+    });
+
+    it("should handle days shortened and lengthened by DST", () => {
+        const springForward = new LocalDate(2024, 3, 10);
+        const start = springForward.startOfDayInTz("America/New_York");
+        const end = springForward.endOfDayInTz("America/New_York");
+        expect(iso(start)).toEqual("2024-03-10T05:00:00.000Z");
+        expect(end.getTime() - start.getTime()).toEqual(23 * 60 * 60 * 1000);
+        const fallBack = new LocalDate(2024, 11, 3);
+        expect(
+            fallBack.endOfDayInTz("America/New_York").getTime() -
+                fallBack.startOfDayInTz("America/New_York").getTime()
+        ).toEqual(25 * 60 * 60 * 1000);
+    });
+
+    it("should start the day after the DST gap when midnight is skipped", () => {
+        const date = new LocalDate(2018, 11, 4);
+        expect(iso(date.startOfDayInTz("America/Sao_Paulo"))).toEqual(
+            "2018-11-04T03:00:00.000Z"
+        );
+    });
+
+    it("should start the day at the first of two midnights", () => {
+        const date = new LocalDate(2023, 11, 5);
+        expect(iso(date.startOfDayInTz("America/Havana"))).toEqual(
+            "2023-11-05T04:00:00.000Z"
+        );
+    });
+
+    it("should give an empty interval for a skipped day", () => {
+        const date = new LocalDate(2011, 12, 30);
+        const start = date.startOfDayInTz("Pacific/Apia");
+        expect(iso(start)).toEqual("2011-12-30T10:00:00.000Z");
+        expect(date.endOfDayInTz("Pacific/Apia")).toEqual(start);
+    });
+
+    it("should convert periods to half-open intervals", () => {
+        const month = new LocalMonth(2024, 3).toInstantsInTz("Europe/London");
+        expect(iso(month.start)).toEqual("2024-03-01T00:00:00.000Z");
+        expect(iso(month.end)).toEqual("2024-03-31T23:00:00.000Z");
+        const week = new LocalWeek(new LocalDate(2024, 3, 4)).toInstantsInTz(
+            "Europe/Berlin"
+        );
+        expect(iso(week.start)).toEqual("2024-03-03T23:00:00.000Z");
+        expect(iso(week.end)).toEqual("2024-03-10T23:00:00.000Z");
+        const quarter = new Quarter(2024, 4).toInstantsInTz("America/New_York");
+        expect(iso(quarter.start)).toEqual("2024-10-01T04:00:00.000Z");
+        expect(iso(quarter.end)).toEqual("2025-01-01T05:00:00.000Z");
+        const year = new LocalYear(2024).toInstantsInTz("Asia/Tokyo");
+        expect(iso(year.start)).toEqual("2023-12-31T15:00:00.000Z");
+        expect(iso(year.end)).toEqual("2024-12-31T15:00:00.000Z");
+    });
+
+    it("should throw for unknown time zones", () => {
+        expect(() =>
+            new LocalDate(2024, 1, 1).startOfDayInTz("Mars/Olympus_Mons")
+        ).toThrow(RangeError);
+    });
+});
+
+describe("RelativePeriods", () => {
+    // a Tuesday evening in New York, but already Wednesday in UTC
+    const clock = new FixedClock(new Date("2024-04-03T01:30:00Z"));
+    const periods = new RelativePeriods("America/New_York", { clock });
+
+    it("should read today from the clock in the timezone", () => {
+        expect(LocalDate.todayInTz("America/New_York", clock)).toEqual(
+            new LocalDate(2024, 4, 2)
+        );
+        expect(LocalDate.todayInTz("UTC", clock)).toEqual(
+            new LocalDate(2024, 4, 3)
+        );
+        expect(periods.today()).toEqual(new LocalDate(2024, 4, 2));
+        expect(periods.yesterday()).toEqual(new LocalDate(2024, 4, 1));
+        expect(periods.tomorrow()).toEqual(new LocalDate(2024, 4, 3));
+    });
+
+    it("should find the current and previous periods", () => {
+        expect(periods.thisWeek().first).toEqual(new LocalDate(2024, 4, 1));
+        expect(periods.lastWeek().first).toEqual(new LocalDate(2024, 3, 25));
+        expect(periods.thisMonth()).toEqual(new LocalMonth(2024, 4));
+        expect(periods.lastMonth()).toEqual(new LocalMonth(2024, 3));
+        expect(periods.thisQuarter()).toEqual(new Quarter(2024, 2));
+        expect(periods.lastQuarter()).toEqual(new Quarter(2024, 1));
+        const sundays = new RelativePeriods("America/New_York", {
+            clock,
+            weekStart: 6,
+        });
+        expect(sundays.thisWeek().first).toEqual(new LocalDate(2024, 3, 31));
+    });
+
+    it("should list the last complete periods oldest first", () => {
+        expect(periods.lastCompleteMonths(3)).toEqual([
+            new LocalMonth(2024, 1),
+            new LocalMonth(2024, 2),
+            new LocalMonth(2024, 3),
+        ]);
+        expect(periods.lastCompleteQuarters(2)).toEqual([
+            new Quarter(2023, 4),
+            new Quarter(2024, 1),
+        ]);
+        expect(periods.lastCompleteWeeks(2).map((week) => week.first)).toEqual([
+            new LocalDate(2024, 3, 18),
+            new LocalDate(2024, 3, 25),
+        ]);
+        expect(periods.lastCompleteMonths(0)).toEqual([]);
+        expect(() => periods.lastCompleteMonths(-1)).toThrow(RangeError);
+        expect(() => periods.lastCompleteMonths(1.5)).toThrow(RangeError);
+    });
+
+    it("should shift time with an offset clock", () => {
+        const dayLater = new OffsetClock(clock, 24 * 60 * 60 * 1000);
+        expect(dayLater.now()).toEqual(new Date("2024-04-04T01:30:00Z"));
+        const later = new RelativePeriods("America/New_York", {
+            clock: new OffsetClock(clock, 30 * 24 * 60 * 60 * 1000),
+        });
+        expect(later.today()).toEqual(new LocalDate(2024, 5, 2));
+        expect(later.thisMonth()).toEqual(new LocalMonth(2024, 5));
+    });
+});
+
+describe("iterate", () => {
+    it("should step through dates lazily", () => {
+        const dates = new LocalDate(2024, 1, 30).iterate(
+            new LocalDate(2024, 2, 2)
+        );
+        expect(dates.next().value).toEqual(new LocalDate(2024, 1, 30));
+        expect([...dates]).toEqual([
+            new LocalDate(2024, 1, 31),
+            new LocalDate(2024, 2, 1),
+            new LocalDate(2024, 2, 2),
+        ]);
+        let count = 0;
+        for (const _ of new LocalDate(1970, 1, 1).iterate(
+            new LocalDate(2069, 12, 31)
+        )) {
+            count++;
+        }
+        expect(count).toEqual(36525);
+    });
+
+    it("should only go backward when asked to", () => {
+        const from = new LocalDate(2024, 1, 3);
+        const to = new LocalDate(2024, 1, 1);
+        expect([...from.iterate(to)]).toEqual([]);
+        expect([...from.iterate(to, { direction: "backward" })]).toEqual([
+            new LocalDate(2024, 1, 3),
+            new LocalDate(2024, 1, 2),
+            new LocalDate(2024, 1, 1),
+        ]);
+        expect([...to.iterate(from, { direction: "backward" })]).toEqual([]);
+    });
+
+    it("should step by more than one period", () => {
+        const weeks = new LocalWeek(new LocalDate(2024, 1, 1)).iterate(
+            new LocalWeek(new LocalDate(2024, 2, 5)),
+            { step: 2 }
+        );
+        expect([...weeks].map((week) => week.first)).toEqual([
+            new LocalDate(2024, 1, 1),
+            new LocalDate(2024, 1, 15),
+            new LocalDate(2024, 1, 29),
+        ]);
+        const quarters = new Quarter(2023, 1).iterate(new Quarter(2024, 1), {
+            step: 2,
+        });
+        expect([...quarters]).toEqual([
+            new Quarter(2023, 1),
+            new Quarter(2023, 3),
+            new Quarter(2024, 1),
+        ]);
+        expect(() =>
+            new LocalYear(2020).iterate(new LocalYear(2024), { step: 0 })
+        ).toThrow(RangeError);
+        expect(() =>
+            new LocalDate(2024, 1, 1).iterate(new LocalDate(2024, 2, 1), {
+                step: 1.5,
+            })
+        ).toThrow(RangeError);
+    });
+
+    it("should include or exclude the ends", () => {
+        const from = new LocalMonth(2024, 11);
+        const to = new LocalMonth(2025, 2);
+        const months = (inclusivity: Inclusivity) =>
+            [...from.iterate(to, { inclusivity })].map(String);
+        expect(months("both")).toEqual([
+            "2024-11",
+            "2024-12",
+            "2025-01",
+            "2025-02",
+        ]);
+        expect(months("start")).toEqual(["2024-11", "2024-12", "2025-01"]);
+        expect(months("end")).toEqual(["2024-12", "2025-01", "2025-02"]);
+        expect(months("neither")).toEqual(["2024-12", "2025-01"]);
+        expect([...from.iterate(from)]).toEqual([from]);
+        expect([...from.iterate(from, { inclusivity: "start" })]).toEqual([]);
+    });
+
+    it("should step through years backward", () => {
+        const years = new LocalYear(2024).iterate(new LocalYear(2018), {
+            direction: "backward",
+            step: 3,
+            inclusivity: "neither",
+        });
+        expect([...years]).toEqual([new LocalYear(2021)]);
+    });
+});
+
+describe("JSON", () => {
+    it("should serialize every period as a string or number", () => {
+        const body = {
+            date: new LocalDate(2024, 1, 5),
+            week: new LocalWeek(new LocalDate(2024, 1, 7), 6),
+            month: new LocalMonth(2024, 1),
+            quarter: new Quarter(2024, 1),
+            year: new LocalYear(2024),
+            range: new LocalDateRange(
+                new LocalDate(2024, 1, 1),
+                new LocalDate(2024, 1, 9)
+            ),
+            fiscal: new FiscalCalendar(4).quarter(2025, 2),
+        };
+        expect(JSON.parse(JSON.stringify(body))).toEqual({
+            date: "2024-01-05",
+            week: "2024-01-07--2024-01-13",
+            month: "2024-01",
+            quarter: "Q1 2024",
+            year: 2024,
+            range: "2024-01-01--2024-01-09",
+            fiscal: "FY25 Q2",
+        });
+    });
+
+    it("should round-trip years outside 1000–9999", () => {
+        for (const year of [987, 0, -44, 12024]) {
+            const date = new LocalDate(year, 3, 15);
+            const month = new LocalMonth(year, 3);
+            const week = date.toLocalWeek();
+            const range = new LocalDateRange(date, date.plusDays(3));
+            expect(decodeLocalDate(date.toJSON())).toEqual(date);
+            expect(decodeLocalMonth(month.toJSON())).toEqual(month);
+            expect(decodeLocalWeek(week.toJSON())).toEqual(week);
+            expect(decodeLocalDateRange(range.toJSON())).toEqual(range);
+        }
+        expect(new LocalDate(987, 3, 1).toJSON()).toEqual("0987-03-01");
+        expect(new LocalDate(-44, 3, 15).toJSON()).toEqual("-0044-03-15");
+        expect(new LocalMonth(12024, 1).toJSON()).toEqual("+12024-01");
+    });
+
+    it("should revive named keys", () => {
+        const week = new LocalWeek(new LocalDate(2024, 1, 7), 6);
+        const json = JSON.stringify({
+            orders: [{ due: new LocalDate(2024, 1, 5), note: "2024-01-05" }],
+            week,
+            year: new LocalYear(2024),
+        });
+        const revived = JSON.parse(
+            json,
+            createReviver({
+                due: decodeLocalDate,
+                week: decodeLocalWeek,
+                year: decodeLocalYear,
+            })
+        );
+        expect(revived.orders[0].due).toEqual(new LocalDate(2024, 1, 5));
+        expect(revived.orders[0].note).toEqual("2024-01-05");
+        expect(revived.week).toEqual(week);
+        expect(revived.year).toEqual(new LocalYear(2024));
+        expect(() =>
+            JSON.parse(
+                '{"orders":[{"due":"2024-02-30"}]}',
+                createReviver({ due: decodeLocalDate })
+            )
+        ).toThrow(DecodeError);
+        expect(() =>
+            JSON.parse(
+                '{"orders":[{"due":"2024-02-30"}]}',
+                createReviver({ due: decodeLocalDate })
+            )
+        ).toThrow("Invalid value: $..due ");
+    });
+
+    it("should decode each period type", () => {
+        expect(decodeLocalDate("2024-01-05")).toEqual(
+            new LocalDate(2024, 1, 5)
+        );
+        expect(decodeLocalWeek("2024-W02").first).toEqual(
+            new LocalDate(2024, 1, 8)
+        );
+        expect(decodeLocalMonth("2024-12")).toEqual(new LocalMonth(2024, 12));
+        expect(decodeQuarter("2024-Q3")).toEqual(new Quarter(2024, 3));
+        expect(decodeLocalYear("2024")).toEqual(new LocalYear(2024));
+        expect(
+            decodeLocalDateRange("2024-01-01--2024-01-31").numberOfDays()
+        ).toEqual(31);
+        const date = new LocalDate(2024, 1, 5);
+        expect(decodeLocalDate(date)).toBe(date);
+    });
+
+    it("should reject invalid values with their path", () => {
+        const issue = (run: () => unknown) => {
+            try {
+                run();
+            } catch (error) {
+                return (error as DecodeError).issues;
+            }
+            throw new Error("expected a DecodeError");
+        };
+        expect(issue(() => decodeLocalMonth("2024-13"))).toEqual([
+            {
+                path: "$",
+                message:
+                    "Date is not in a valid format: 2024-13 (month 13 is out of range)",
+            },
+        ]);
+        expect(issue(() => decodeLocalDate(20240105))).toEqual([
+            { path: "$", message: "should be a date string, not number" },
+        ]);
+        expect(issue(() => decodeLocalYear(2024.5))[0].message).toEqual(
+            "should be a whole year, not 2024.5"
+        );
+        expect(
+            issue(() => decodeLocalDateRange("2024-02-01--2024-01-01"))[0]
+                .message
+        ).toEqual("Range ends before it starts: 2024-02-01--2024-01-01");
+    });
+
+    it("should decode request bodies and report every issue", () => {
+        const decodeReport = decodeObject({
+            period: decodeQuarter,
+            from: decodeOptional(decodeLocalDate),
+            holidays: decodeArray(decodeLocalDate),
+        });
+        const report = decodeReport({
+            period: "Q2 2024",
+            holidays: ["2024-05-27", "2024-06-19"],
+            ignored: true,
+        });
+        expect(report).toEqual({
+            period: new Quarter(2024, 2),
+            from: undefined,
+            holidays: [new LocalDate(2024, 5, 27), new LocalDate(2024, 6, 19)],
+        });
+        let error: DecodeError | undefined;
+        try {
+            decodeReport({
+                period: "Q5 2024",
+                holidays: ["2024-05-27", "soon"],
+            });
+        } catch (thrown) {
+            error = thrown as DecodeError;
+        }
+        expect(error).toBeInstanceOf(DecodeError);
+        expect(error!.issues.map(({ path }) => path)).toEqual([
+            "$.period",
+            "$.holidays[1]",
+        ]);
+        expect(() => decodeReport(null)).toThrow(
+            "Invalid value: $ should be an object, not null"
+        );
+    });
+
+    it("should decode query strings", () => {
+        const params = new URLSearchParams("month=2024-02&week=2024-W05");
+        const decodeQuery = decodeObject({
+            month: decodeLocalMonth,
+            week: decodeLocalWeek,
+            quarter: decodeOptional(decodeQuarter),
+        });
+        const query = decodeQuery({
+            month: params.get("month"),
+            week: params.get("week"),
+            quarter: params.get("quarter"),
+        });
+        expect(query.month).toEqual(new LocalMonth(2024, 2));
+        expect(query.week.first).toEqual(new LocalDate(2024, 1, 29));
+        expect(query.quarter).toBeUndefined();
+    });
+});
+
+describe("TimeSeries", () => {
+    const orders = [
+        { date: new LocalDate(2024, 1, 3), total: 10 },
+        { date: new LocalDate(2024, 1, 2), total: 5 },
+        { date: new LocalDate(2024, 1, 17), total: 20 },
+        { date: new LocalDate(2024, 3, 9), total: 7 },
+    ];
+
+    it("should group items and fill in empty periods", () => {
+        const series = TimeSeries.bucket(
+            orders,
+            (order) => order.date,
+            "month"
+        );
+        expect(
+            series
+                .toEntries()
+                .map(([month, items]) => [
+                    month.toString(),
+                    items.map((order) => order.total),
+                ])
+        ).toEqual([
+            ["2024-01", [10, 5, 20]],
+            ["2024-02", []],
+            ["2024-03", [7]],
+        ]);
+        expect(series.length).toEqual(3);
+        expect([...series][1].period).toEqual(new LocalMonth(2024, 2));
+    });
+
+    it("should cover a given period with reducers", () => {
+        const series = TimeSeries.bucket(
+            orders,
+            (order) => order.date,
+            "week",
+            {
+                within: new LocalMonth(2024, 1),
+                reduce: sumBy((order) => order.total),
+            }
+        );
+        expect(
+            series.buckets.map(({ period, value }) => [
+                period.first.toString(),
+                value,
+            ])
+        ).toEqual([
+            ["2024-01-01", 15],
+            ["2024-01-08", 0],
+            ["2024-01-15", 20],
+            ["2024-01-22", 0],
+            ["2024-01-29", 0],
+        ]);
+        const quarters = TimeSeries.bucket(
+            orders,
+            (order) => order.date,
+            "quarter",
+            {
+                within: new LocalYear(2024),
+                reduce: countItems(),
+            }
+        );
+        expect(quarters.buckets.map(({ value }) => value)).toEqual([
+            4, 0, 0, 0,
+        ]);
+    });
+
+    it("should leave out items outside the period", () => {
+        const series = TimeSeries.bucket(orders, (order) => order.date, "day", {
+            within: new LocalDateRange(
+                new LocalDate(2024, 1, 3),
+                new LocalDate(2024, 1, 4)
+            ),
+            reduce: countItems(),
+        });
+        expect(series.buckets.map(({ value }) => value)).toEqual([1, 0]);
+        expect(
+            TimeSeries.bucket(
+                [],
+                (order: { date: LocalDate }) => order.date,
+                "day"
+            ).length
+        ).toEqual(0);
+    });
+
+    it("should start weeks on the given day", () => {
+        const series = TimeSeries.bucket(
+            orders,
+            (order) => order.date,
+            "week",
+            {
+                within: new LocalDateRange(
+                    new LocalDate(2024, 1, 1),
+                    new LocalDate(2024, 1, 10)
+                ),
+                weekStart: 6,
+                reduce: countItems(),
+            }
+        );
+        expect(
+            series.buckets.map(({ period, value }) => [
+                period.first.toString(),
+                value,
+            ])
+        ).toEqual([
+            ["2023-12-31", 2],
+            ["2024-01-07", 0],
+        ]);
+    });
+
+    it("should re-bucket a daily series into coarser periods", () => {
+        const daily = TimeSeries.bucket(orders, (order) => order.date, "day", {
+            reduce: sumBy((order) => order.total),
+        });
+        expect(daily.length).toEqual(68);
+        const monthly = daily.rebucket(
+            "month",
+            sumBy((total) => total)
+        );
+        expect(
+            monthly
+                .toEntries()
+                .map(([month, total]) => [month.toString(), total])
+        ).toEqual([
+            ["2024-01", 35],
+            ["2024-02", 0],
+            ["2024-03", 7],
+        ]);
+        const quarterly = monthly.rebucket("quarter", countItems());
+        expect(quarterly.toEntries()).toEqual([[new Quarter(2024, 1), 3]]);
+        expect(
+            new TimeSeries([]).rebucket("year", countItems()).length
+        ).toEqual(0);
+    });
+});
+
+describe("allocate", () => {
+    // an invoice from Jan 15 to Apr 14, 91 days in a leap year
+    const invoice = new LocalDateRange(
+        new LocalDate(2024, 1, 15),
+        new LocalDate(2024, 4, 14)
+    );
+
+    it("should split an amount across months by days", () => {
+        const allocations = allocate(invoice, 10000, "month");
+        expect(
+            allocations.map(({ period, days, amount }) => [
+                period.toString(),
+                days,
+                amount,
+            ])
+        ).toEqual([
+            ["2024-01", 17, 1868],
+            ["2024-02", 29, 3187],
+            ["2024-03", 31, 3407],
+            ["2024-04", 14, 1538],
+        ]);
+        expect(allocations[0].overlap).toEqual(
+            new LocalDateRange(
+                new LocalDate(2024, 1, 15),
+                new LocalDate(2024, 1, 31)
+            )
+        );
+        expect(allocations[3].overlap!.end).toEqual(new LocalDate(2024, 4, 14));
+    });
+
+    it("should always add up to the total", () => {
+        const year = new LocalYear(2023);
+        for (const amount of [1, 2, 99, 100, 12345, -7, 0]) {
+            for (const unit of ["week", "month", "quarter"] as const) {
+                const total = allocate(year, amount, unit)
+                    .map((allocation) => allocation.amount)
+                    .reduce((sum, share) => sum + share, 0);
+                expect(total).toEqual(amount);
+            }
+        }
+        expect(
+            allocate(new LocalMonth(2024, 1), 100, [
+                new LocalWeek(new LocalDate(2024, 1, 1)),
+                new LocalWeek(new LocalDate(2024, 1, 8)),
+                new LocalWeek(new LocalDate(2024, 1, 15)),
+            ]).map(({ amount }) => amount)
+        ).toEqual([34, 33, 33]);
+    });
+
+    it("should add up exactly in minor units with decimals", () => {
+        const sumUnits = (amount: number, decimals: number) =>
+            allocate(new LocalYear(2023), amount, "week", { decimals })
+                .map(({ units }) => units)
+                .reduce((sum, units) => sum + units, 0);
+        expect(sumUnits(100, 2)).toEqual(10000);
+        expect(sumUnits(100.05, 2)).toEqual(10005);
+        expect(sumUnits(0.29, 2)).toEqual(29);
+        expect(sumUnits(100.5, 1)).toEqual(1005);
+        const shares = allocate(new LocalMonth(2024, 1), 100.07, "week", {
+            decimals: 2,
+        });
+        expect(shares.map(({ units }) => units)).toEqual([
+            2260, 2260, 2260, 2259, 968,
+        ]);
+        expect(shares[3].amount).toEqual(22.59);
+    });
+
+    it("should reject amounts with more decimal places than allowed", () => {
+        expect(() => allocate(new LocalMonth(2024, 1), 100.5, "week")).toThrow(
+            RangeError
+        );
+        expect(() =>
+            allocate(new LocalMonth(2024, 1), 1.005, "week", { decimals: 2 })
+        ).toThrow(RangeError);
+    });
+
+    it("should reject amounts too large to split exactly", () => {
+        const month = new LocalMonth(2024, 1);
+        expect(() => allocate(month, 1e20, "week")).toThrow(RangeError);
+        expect(() => allocate(month, Infinity, "week")).toThrow(RangeError);
+        expect(() => allocate(month, NaN, "week")).toThrow(RangeError);
+        const decade = new LocalDateRange(
+            new LocalDate(2020, 1, 1),
+            new LocalDate(2029, 12, 31)
+        );
+        expect(() => allocate(decade, 2 ** 52 + 1, "month")).toThrow(
+            RangeError
+        );
+        const shares = allocate(decade, 2 ** 40, "month");
+        expect(shares.every(({ units }) => Number.isInteger(units))).toBe(true);
+        expect(shares.reduce((sum, { units }) => sum + units, 0)).toEqual(
+            2 ** 40
+        );
+    });
+
+    it("should round to decimal places", () => {
+        const shares = allocate(new Quarter(2023, 1), 100, "month", {
+            decimals: 2,
+        }).map(({ amount }) => amount);
+        expect(shares).toEqual([34.45, 31.11, 34.44]);
+        expect(() => allocate(invoice, 1, "month", { decimals: -1 })).toThrow(
+            RangeError
+        );
+    });
+
+    it("should weigh periods by business days", () => {
+        const calendar = new BusinessCalendar({
+            holidays: [new LocalDate(2024, 1, 1)],
+        });
+        const allocations = allocate(
+            new LocalDateRange(
+                new LocalDate(2023, 12, 25),
+                new LocalDate(2024, 1, 7)
+            ),
+            900,
+            "month",
+            { calendar }
+        );
+        expect(allocations.map(({ days, amount }) => [days, amount])).toEqual([
+            [5, 500],
+            [4, 400],
+        ]);
+    });
+
+    it("should give nothing to periods outside the range", () => {
+        const allocations = allocate(new LocalMonth(2024, 2), 50, [
+            new LocalMonth(2024, 1),
+            new LocalMonth(2024, 2),
+        ]);
+        expect(allocations[0]).toEqual({
+            period: new LocalMonth(2024, 1),
+            overlap: undefined,
+            days: 0,
+            units: 0,
+            amount: 0,
+        });
+        expect(allocations[1].amount).toEqual(50);
+        expect(() => allocate(new LocalMonth(2024, 2), 50, [])).toThrow(
+            RangeError
+        );
+    });
+});
+
+describe("calendarGrid", () => {
+    it("should lay out a month as weeks", () => {
+        const grid = calendarGrid(new LocalMonth(2024, 9));
+        expect(grid.months).toHaveLength(1);
+        const { month, rows } = grid.months[0];
+        expect(month).toEqual(new LocalMonth(2024, 9));
+        expect(rows).toHaveLength(6);
+        expect(rows[0].week.first).toEqual(new LocalDate(2024, 8, 26));
+        expect(rows[0].cells.map(({ inMonth }) => inMonth)).toEqual([
+            false,
+            false,
+            false,
+            false,
+            false,
+            false,
+            true,
+        ]);
+        expect(rows[5].cells[0]).toEqual({
+            date: new LocalDate(2024, 9, 30),
+            inMonth: true,
+            isToday: false,
+            isWeekend: false,
+            isDisabled: false,
+        });
+        expect(rows[5].cells[1].inMonth).toBe(false);
+        expect(rows[0].cells.map(({ isWeekend }) => isWeekend)).toEqual([
+            false,
+            false,
+            false,
+            false,
+            false,
+            true,
+            true,
+        ]);
+    });
+
+    it("should pad to six rows and start weeks on any day", () => {
+        const february = new LocalMonth(2026, 2);
+        const sundays = calendarGrid(february, { weekStart: 6 });
+        expect(sundays.months[0].rows).toHaveLength(4);
+        expect(sundays.months[0].rows[0].cells[0].date).toEqual(
+            new LocalDate(2026, 2, 1)
+        );
+        const fixed = calendarGrid(february, { weekStart: 6, fixedRows: true });
+        const rows = fixed.months[0].rows;
+        expect(rows).toHaveLength(6);
+        expect(rows[5].week.first).toEqual(new LocalDate(2026, 3, 8));
+        expect(rows[5].cells.every(({ inMonth }) => !inMonth)).toBe(true);
+    });
+
+    it("should flag today and disabled days", () => {
+        const grid = calendarGrid(new LocalMonth(2024, 6), {
+            today: new LocalDate(2024, 6, 12),
+            min: new LocalDate(2024, 6, 10),
+            max: new LocalDate(2024, 6, 20),
+        });
+        const cells = grid.months[0].rows.flatMap((row) => row.cells);
+        expect(
+            cells.filter((cell) => cell.isToday).map((cell) => cell.date)
+        ).toEqual([new LocalDate(2024, 6, 12)]);
+        const enabled = cells.filter((cell) => !cell.isDisabled);
+        expect(enabled).toHaveLength(11);
+        expect(enabled[0].date).toEqual(new LocalDate(2024, 6, 10));
+        expect(() =>
+            calendarGrid(new LocalMonth(2024, 6), {
+                min: new LocalDate(2024, 6, 20),
+                max: new LocalDate(2024, 6, 10),
+            })
+        ).toThrow(InvalidRangeError);
+    });
+
+    it("should cover a span of months", () => {
+        const grid = calendarGrid(new Quarter(2024, 1));
+        expect(grid.months.map(({ month }) => month.toString())).toEqual([
+            "2024-01",
+            "2024-02",
+            "2024-03",
+        ]);
+        expect(calendarGrid(new LocalYear(2024)).months).toHaveLength(12);
+    });
+
+    it("should label weekdays in the grid's order", () => {
+        expect(calendarGrid(new LocalMonth(2024, 1)).weekdays).toEqual([
+            { weekday: 0, label: "Mon" },
+            { weekday: 1, label: "Tue" },
+            { weekday: 2, label: "Wed" },
+            { weekday: 3, label: "Thu" },
+            { weekday: 4, label: "Fri" },
+            { weekday: 5, label: "Sat" },
+            { weekday: 6, label: "Sun" },
+        ]);
+        const german = calendarGrid(new LocalMonth(2024, 1), {
+            weekStart: 6,
+            locale: "de",
+            weekdayFormat: "long",
+        });
+        expect(german.weekdays[0]).toEqual({ weekday: 6, label: "Sonntag" });
+        expect(german.weekdays[1].label).toEqual("Montag");
+    });
+});
+
+describe("parseRelativeDate", () => {
+    // a Wednesday
+    const reference = new LocalDate(2024, 5, 15);
+    const parse = (expression: string) =>
+        parseRelativeDate(expression, reference);
+
+    it("should resolve single days", () => {
+        expect(parse("today")).toEqual(reference);
+        expect(parse("Yesterday")).toEqual(new LocalDate(2024, 5, 14));
+        expect(parse("tomorrow")).toEqual(new LocalDate(2024, 5, 16));
+    });
+
+    it("should resolve weekdays deterministically", () => {
+        expect(parse("last monday")).toEqual(new LocalDate(2024, 5, 13));
+        expect(parse("this monday")).toEqual(new LocalDate(2024, 5, 13));
+        expect(parse("next monday")).toEqual(new LocalDate(2024, 5, 20));
+        expect(parse("last wednesday")).toEqual(new LocalDate(2024, 5, 8));
+        expect(parse("next wednesday")).toEqual(new LocalDate(2024, 5, 22));
+        expect(parse("this sunday")).toEqual(new LocalDate(2024, 5, 19));
+        expect(parse("last fri")).toEqual(new LocalDate(2024, 5, 10));
+        expect(
+            parseRelativeDate("this saturday", reference, { weekStart: 6 })
+        ).toEqual(new LocalDate(2024, 5, 18));
+        expect(
+            parseRelativeDate("this sunday", reference, { weekStart: 6 })
+        ).toEqual(new LocalDate(2024, 5, 12));
+    });
+
+    it("should resolve amounts of time", () => {
+        expect(parse("3 weeks ago")).toEqual(new LocalDate(2024, 4, 24));
+        expect(parse("in 10 days")).toEqual(new LocalDate(2024, 5, 25));
+        expect(parse("in 2 months")).toEqual(new LocalDate(2024, 7, 15));
+        expect(parse("a year ago")).toEqual(new LocalDate(2023, 5, 15));
+        expect(parse("two quarters ago")).toEqual(new LocalDate(2023, 11, 15));
+        expect(
+            parseRelativeDate("in 1 month", new LocalDate(2024, 1, 31))
+        ).toEqual(new LocalDate(2024, 2, 29));
+    });
+
+    it("should resolve periods", () => {
+        expect(parse("last month")).toEqual(new LocalMonth(2024, 4));
+        expect(parse("this quarter")).toEqual(new Quarter(2024, 2));
+        expect(parse("last year")).toEqual(new LocalYear(2023));
+        const week = parse("next week") as LocalWeek;
+        expect(week).toBeInstanceOf(LocalWeek);
+        expect(week.first).toEqual(new LocalDate(2024, 5, 20));
+    });
+
+    it("should resolve the start and end of periods", () => {
+        expect(parse("start of last quarter")).toEqual(
+            new LocalDate(2024, 1, 1)
+        );
+        expect(parse("Start Of Last Quarter")).toEqual(
+            new LocalDate(2024, 1, 1)
+        );
+        expect(parse("end of month")).toEqual(new LocalDate(2024, 5, 31));
+        expect(parse("start of next week")).toEqual(new LocalDate(2024, 5, 20));
+        expect(parse("end of this year")).toEqual(new LocalDate(2024, 12, 31));
+    });
+
+    it("should count business days", () => {
+        const calendar = new BusinessCalendar({
+            holidays: [new LocalDate(2024, 5, 27)],
+        });
+        const friday = new LocalDate(2024, 5, 24);
+        expect(
+            parseRelativeDate("next business day", friday, { calendar })
+        ).toEqual(new LocalDate(2024, 5, 28));
+        expect(parse("previous business day")).toEqual(
+            new LocalDate(2024, 5, 14)
+        );
+        expect(parse("3 business days ago")).toEqual(
+            new LocalDate(2024, 5, 10)
+        );
+        expect(
+            parseRelativeDate("in 1 business day", friday, { calendar })
+        ).toEqual(new LocalDate(2024, 5, 28));
+    });
+
+    it("should find the first and last business days of periods", () => {
+        expect(parse("last business day of month")).toEqual(
+            new LocalDate(2024, 5, 31)
+        );
+        expect(parse("first business day of next month")).toEqual(
+            new LocalDate(2024, 6, 3)
+        );
+        expect(parse("last business day of last quarter")).toEqual(
+            new LocalDate(2024, 3, 29)
+        );
+        const calendar = new BusinessCalendar({
+            holidays: [new LocalDate(2024, 5, 31)],
+        });
+        expect(
+            parseRelativeDate("last business day of this month", reference, {
+                calendar,
+            })
+        ).toEqual(new LocalDate(2024, 5, 30));
+        expect(() => parse("last business day of")).toThrow(DateFormatError);
+    });
+
+    it("should reject ambiguous and unsupported phrases", () => {
+        const error = (expression: string) => {
+            try {
+                parse(expression);
+            } catch (error) {
+                return error as DateFormatError;
+            }
+            throw new Error(`expected ${expression} to fail`);
+        };
+        expect(error("monday").message).toEqual(
+            'Date is not in a valid format: monday ("monday" is ambiguous, say "last monday", "this monday" or "next monday")'
+        );
+        expect(error("in 3 fortnights").position).toEqual(5);
+        expect(error("in 3 fortnights").message).toContain(
+            'unknown unit "fortnights"'
+        );
+        expect(error("last day").message).toContain('use "yesterday"');
+        expect(error("last business day").message).toContain(
+            'say "previous business day" or "last business day of month"'
+        );
+        expect(error("some time soon")).toBeInstanceOf(DateFormatError);
+        expect(error("many weeks ago").message).toContain(
+            'expected a number, not "many"'
+        );
+        expect(error("start last month").position).toEqual(6);
+        expect(error("")).toBeInstanceOf(DateFormatError);
+        expect(error("constructor month")).toBeInstanceOf(DateFormatError);
+    });
+});
+
+describe("locale formatting", () => {
+    const clean = (text: string) => text.replace(/\s/g, " ");
+
+    it("should format weeks as ranges", () => {
+        const week = new LocalDate(2024, 1, 1).toLocalWeek();
+        expect(clean(week.toLocaleString("en-US"))).toEqual("Jan 1 – 7, 2024");
+        expect(week.format("RRRR-'W'II")).toEqual("2024-W01");
+        const sundayStart = new LocalWeek(new LocalDate(2024, 1, 3), 6);
+        expect(sundayStart.format("RRRR-'W'II-i")).toEqual("2024-W01-1");
+        expect(sundayStart.format("yyyy-MM-dd")).toEqual("2023-12-31");
+        expect(sundayStart.format("RRRR-'W'II")).toEqual(
+            sundayStart.toIsoString()
+        );
+        const straddling = new LocalDate(2024, 12, 30).toLocalWeek();
+        expect(clean(straddling.formatRange("en-US"))).toEqual(
+            "Dec 30, 2024 – Jan 5, 2025"
+        );
+    });
+
+    it("should format months", () => {
+        const month = new LocalMonth(2024, 1);
+        expect(month.toLocaleString("en-US")).toEqual("January 2024");
+        expect(month.toLocaleString("de")).toEqual("Januar 2024");
+        expect(clean(month.formatRange("en-US"))).toEqual("Jan 1 – 31, 2024");
+        expect(month.format("MMM yyyy")).toEqual("Jan 2024");
+    });
+
+    it("should format quarters", () => {
+        const quarter = new Quarter(2024, 1);
+        expect(clean(quarter.toLocaleString("en-US"))).toEqual(
+            "Jan – Mar 2024"
+        );
+        expect(quarter.format("yyyy-'Q'Q")).toEqual("2024-Q1");
+    });
+
+    it("should format years and ranges", () => {
+        expect(new LocalYear(2024).toLocaleString("en-US")).toEqual("2024");
+        const range = new LocalDateRange(
+            new LocalDate(2024, 1, 15),
+            new LocalDate(2024, 2, 3)
+        );
+        expect(clean(range.formatRange("en-US"))).toEqual(
+            "Jan 15 – Feb 3, 2024"
+        );
+    });
 });